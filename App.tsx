@@ -1,22 +1,87 @@
-import React, { useState } from 'react';
-import { AppMode } from './types';
+import React, { useCallback, useEffect, useState } from 'react';
+import { AppMode, LearnerProfile, PlacementResult } from './types';
+import { activateProfile, loadActiveProfile, updateProfile } from './utils/profiles';
+import { ProxyStatus } from './utils/genai';
+import { getBackend } from './utils/backend';
+import { BudgetStatus, getBudgetStatus, onUsageChange } from './utils/usage';
 import LiveConversation from './components/LiveConversation';
 import SmartChat from './components/SmartChat';
 import PracticeTools from './components/PracticeTools';
-import { MessageCircle, Mic, PenTool, BookOpen } from 'lucide-react';
+import ReviewDeck from './components/ReviewDeck';
+import ProgressDashboard from './components/ProgressDashboard';
+import SettingsPanel from './components/SettingsPanel';
+import ProfilePicker from './components/ProfilePicker';
+import PlacementTest from './components/PlacementTest';
+import UsagePanel from './components/UsagePanel';
+import ModelDiagnostics from './components/ModelDiagnostics';
+import { MessageCircle, Mic, PenTool, BookOpen, Layers, Settings, Loader2, RefreshCw, UserRound, BarChart3, Gauge } from 'lucide-react';
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<AppMode>(AppMode.LIVE_CONVERSATION);
-  const apiKey = process.env.API_KEY || '';
+  const [profile, setProfile] = useState<LearnerProfile>(loadActiveProfile);
+  const [showProfiles, setShowProfiles] = useState(false);
+  // Set while switching learner: the old learner's views unmount (and save) first
+  const [pendingProfileId, setPendingProfileId] = useState<string | null>(null);
+  const [proxyStatus, setProxyStatus] = useState<ProxyStatus | null>(null);
+  const [budgetStatus, setBudgetStatus] = useState<BudgetStatus>(getBudgetStatus);
 
-  if (!apiKey) {
+  const refreshProxyStatus = useCallback(() => {
+    setProxyStatus(null);
+    getBackend().checkAvailability().then(setProxyStatus);
+  }, []);
+
+  useEffect(() => {
+    refreshProxyStatus();
+  }, [refreshProxyStatus]);
+
+  useEffect(() => onUsageChange(() => setBudgetStatus(getBudgetStatus())), []);
+
+  const handleProfileChange = (next: LearnerProfile) => {
+    setProfile(next);
+    updateProfile(next);
+  };
+
+  const handlePlacementComplete = (placement: PlacementResult) => {
+    handleProfileChange({ ...profile, placement, settings: { ...profile.settings, level: placement.level } });
+    setActiveTab(AppMode.SETTINGS);
+  };
+
+  const handleProfileSelect = (next: LearnerProfile) => {
+    setShowProfiles(false);
+    if (next.id !== profile.id) setPendingProfileId(next.id);
+  };
+
+  // Runs after the old views' cleanup, so their last saves still go to the old learner
+  useEffect(() => {
+    if (!pendingProfileId) return;
+    setProfile(activateProfile(pendingProfileId));
+    setPendingProfileId(null);
+  }, [pendingProfileId]);
+
+  if (proxyStatus === null) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-slate-100">
+        <Loader2 size={32} className="animate-spin text-teal-600" />
+      </div>
+    );
+  }
+
+  if (proxyStatus !== 'ok') {
     return (
       <div className="flex h-screen items-center justify-center bg-red-50">
         <div className="text-center p-8 bg-white rounded-2xl shadow-xl max-w-md">
           <h1 className="text-2xl font-bold text-red-600 mb-4">Configuration Error</h1>
           <p className="text-slate-600">
-            API Key is missing. This app requires a valid Google Gemini API key in the environment variables.
+            {proxyStatus === 'unconfigured'
+              ? 'The LingoMate server is running but has no Gemini API key. Set GEMINI_API_KEY for the server and restart it.'
+              : 'Cannot reach the LingoMate server. Make sure it is running (npm run proxy) and try again.'}
           </p>
+          <button
+            onClick={refreshProxyStatus}
+            className="mt-6 inline-flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-xl font-medium hover:bg-teal-700"
+          >
+            <RefreshCw size={16} /> Try again
+          </button>
         </div>
       </div>
     );
@@ -32,22 +97,83 @@ const App: React.FC = () => {
                 <BookOpen size={24} className="text-teal-200"/>
                 LingoMate
             </h1>
-            <span className="text-xs bg-teal-800 px-2 py-1 rounded-full text-teal-100">For Mom</span>
+            <div className="flex items-center gap-2">
+                {getBackend().kind === 'fake' && (
+                    <span className="text-xs bg-amber-400 px-2 py-1 rounded-full text-amber-950 font-semibold" title="Offline demo: replies are scripted">Demo</span>
+                )}
+                <button
+                    onClick={() => setShowProfiles(true)}
+                    className="text-xs bg-teal-800 px-2 py-1 rounded-full text-teal-100 flex items-center gap-1 hover:bg-teal-900 max-w-[8rem]"
+                    title="Switch learner"
+                >
+                    <UserRound size={12} className="shrink-0" />
+                    <span className="truncate">{profile.name}</span>
+                </button>
+                <button
+                    onClick={() => setActiveTab(AppMode.SETTINGS)}
+                    className={`p-1.5 rounded-full transition-colors ${activeTab === AppMode.SETTINGS ? 'bg-teal-800' : 'hover:bg-teal-600'}`}
+                    title="Settings"
+                >
+                    <Settings size={20} />
+                </button>
+            </div>
         </div>
       </header>
 
-      {/* Main Content Area */}
-      <main className="flex-1 overflow-hidden relative">
-        {activeTab === AppMode.LIVE_CONVERSATION && <LiveConversation apiKey={apiKey} />}
-        {activeTab === AppMode.SMART_CHAT && <SmartChat apiKey={apiKey} />}
-        {activeTab === AppMode.PRACTICE_TOOLS && <PracticeTools apiKey={apiKey} />}
+      {budgetStatus.level !== 'ok' && activeTab !== AppMode.USAGE && (
+        <button
+          onClick={() => setActiveTab(AppMode.USAGE)}
+          className={`w-full px-4 py-2 text-sm flex items-center gap-2 text-left ${
+            budgetStatus.level === 'exceeded' ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-900'
+          }`}
+        >
+          <Gauge size={16} className="shrink-0" />
+          {budgetStatus.level === 'exceeded'
+            ? 'Token budget reached: Live calls and Thinking Mode are paused.'
+            : 'Token budget nearly used up. Live calls and Thinking Mode will pause at the cap.'}
+        </button>
+      )}
+
+      {/* Main Content Area. Keyed by profile so switching learner reloads their data. */}
+      <main key={profile.id} className="flex-1 overflow-hidden relative">
+        {!pendingProfileId && (
+          <>
+            {activeTab === AppMode.LIVE_CONVERSATION && <LiveConversation profile={profile} />}
+            {activeTab === AppMode.SMART_CHAT && <SmartChat profile={profile} />}
+            {activeTab === AppMode.PRACTICE_TOOLS && <PracticeTools profile={profile} />}
+            {activeTab === AppMode.REVIEW && <ReviewDeck settings={profile.settings} />}
+            {activeTab === AppMode.PROGRESS && <ProgressDashboard profile={profile} />}
+            {activeTab === AppMode.SETTINGS && (
+              <SettingsPanel
+                profile={profile}
+                onChange={handleProfileChange}
+                onStartPlacement={() => setActiveTab(AppMode.PLACEMENT_TEST)}
+                onShowUsage={() => setActiveTab(AppMode.USAGE)}
+                onShowModels={() => setActiveTab(AppMode.MODELS)}
+              />
+            )}
+            {activeTab === AppMode.USAGE && <UsagePanel onClose={() => setActiveTab(AppMode.SETTINGS)} />}
+            {activeTab === AppMode.MODELS && <ModelDiagnostics onClose={() => setActiveTab(AppMode.SETTINGS)} />}
+            {activeTab === AppMode.PLACEMENT_TEST && (
+              <PlacementTest
+                profile={profile}
+                onComplete={handlePlacementComplete}
+                onCancel={() => setActiveTab(AppMode.SETTINGS)}
+              />
+            )}
+          </>
+        )}
       </main>
 
+      {showProfiles && (
+        <ProfilePicker activeId={profile.id} onSelect={handleProfileSelect} onClose={() => setShowProfiles(false)} />
+      )}
+
       {/* Bottom Navigation */}
       <nav className="bg-white border-t border-slate-200 p-2 flex justify-around items-center pb-safe z-10">
         <button
           onClick={() => setActiveTab(AppMode.LIVE_CONVERSATION)}
-          className={`flex flex-col items-center gap-1 p-2 rounded-xl transition-all w-24 ${
+          className={`flex flex-col items-center gap-1 p-2 rounded-xl transition-all w-20 ${
             activeTab === AppMode.LIVE_CONVERSATION ? 'text-teal-600 bg-teal-50' : 'text-slate-400 hover:bg-slate-50'
           }`}
         >
@@ -57,7 +183,7 @@ const App: React.FC = () => {
 
         <button
           onClick={() => setActiveTab(AppMode.SMART_CHAT)}
-          className={`flex flex-col items-center gap-1 p-2 rounded-xl transition-all w-24 ${
+          className={`flex flex-col items-center gap-1 p-2 rounded-xl transition-all w-20 ${
             activeTab === AppMode.SMART_CHAT ? 'text-teal-600 bg-teal-50' : 'text-slate-400 hover:bg-slate-50'
           }`}
         >
@@ -67,13 +193,33 @@ const App: React.FC = () => {
 
         <button
           onClick={() => setActiveTab(AppMode.PRACTICE_TOOLS)}
-          className={`flex flex-col items-center gap-1 p-2 rounded-xl transition-all w-24 ${
+          className={`flex flex-col items-center gap-1 p-2 rounded-xl transition-all w-20 ${
             activeTab === AppMode.PRACTICE_TOOLS ? 'text-teal-600 bg-teal-50' : 'text-slate-400 hover:bg-slate-50'
           }`}
         >
           <PenTool size={24} strokeWidth={activeTab === AppMode.PRACTICE_TOOLS ? 2.5 : 2} />
           <span className="text-xs font-medium">Practice</span>
         </button>
+
+        <button
+          onClick={() => setActiveTab(AppMode.REVIEW)}
+          className={`flex flex-col items-center gap-1 p-2 rounded-xl transition-all w-20 ${
+            activeTab === AppMode.REVIEW ? 'text-teal-600 bg-teal-50' : 'text-slate-400 hover:bg-slate-50'
+          }`}
+        >
+          <Layers size={24} strokeWidth={activeTab === AppMode.REVIEW ? 2.5 : 2} />
+          <span className="text-xs font-medium">Review</span>
+        </button>
+
+        <button
+          onClick={() => setActiveTab(AppMode.PROGRESS)}
+          className={`flex flex-col items-center gap-1 p-2 rounded-xl transition-all w-20 ${
+            activeTab === AppMode.PROGRESS ? 'text-teal-600 bg-teal-50' : 'text-slate-400 hover:bg-slate-50'
+          }`}
+        >
+          <BarChart3 size={24} strokeWidth={activeTab === AppMode.PROGRESS ? 2.5 : 2} />
+          <span className="text-xs font-medium">Progress</span>
+        </button>
       </nav>
     </div>
   );
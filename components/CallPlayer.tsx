@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Pause, Play, RotateCcw } from 'lucide-react';
+import { CallRecording } from '../types';
+import { recordingFileName } from '../utils/recordings';
+
+interface CallPlayerProps {
+  recording: CallRecording;
+}
+
+const SKIP_BACK_SECONDS = 5;
+
+const formatTime = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+// Replays a recorded Live call (learner and tutor together) with scrubbing and download
+const CallPlayer: React.FC<CallPlayerProps> = ({ recording }) => {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const duration = recording.durationMs / 1000;
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(recording.wav);
+    setUrl(objectUrl);
+    setCurrentTime(0);
+    setIsPlaying(false);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [recording]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(e => console.error(e));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seek = (seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = Math.max(0, Math.min(duration, seconds));
+    setCurrentTime(audio.currentTime);
+  };
+
+  return (
+    <div className="bg-white p-3 rounded-xl border border-slate-200 shadow-sm">
+      {url && (
+        <audio
+          ref={audioRef}
+          src={url}
+          preload="metadata"
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+          onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)}
+        />
+      )}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={togglePlay}
+          className="p-2 rounded-full bg-teal-600 text-white hover:bg-teal-700"
+          title={isPlaying ? 'Pause' : 'Play the call'}
+        >
+          {isPlaying ? <Pause size={18} /> : <Play size={18} />}
+        </button>
+        <button
+          onClick={() => seek(currentTime - SKIP_BACK_SECONDS)}
+          className="p-2 rounded-full text-slate-500 hover:bg-slate-100"
+          title={`Back ${SKIP_BACK_SECONDS} seconds`}
+        >
+          <RotateCcw size={16} />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.1}
+          value={Math.min(currentTime, duration)}
+          onChange={e => seek(Number(e.target.value))}
+          className="flex-1 accent-teal-600"
+          aria-label="Position in the call"
+        />
+        <span className="text-xs text-slate-500 tabular-nums w-20 text-right">
+          {formatTime(currentTime)} / {formatTime(duration)}
+        </span>
+        {url && (
+          <a
+            href={url}
+            download={recordingFileName(recording)}
+            className="p-2 rounded-full text-slate-500 hover:bg-slate-100"
+            title="Download as WAV"
+          >
+            <Download size={16} />
+          </a>
+        )}
+      </div>
+      <p className="text-xs text-slate-400 mt-2">Listen to your own voice next to the tutor's.</p>
+    </div>
+  );
+};
+
+export default CallPlayer;
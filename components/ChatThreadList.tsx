@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Plus, Search, Pencil, Trash2, MessageSquare } from 'lucide-react';
+import { ChatThread } from '../types';
+import { listThreads, searchThreads, saveThread, deleteThread, ThreadSearchResult } from '../utils/chatStore';
+
+interface ChatThreadListProps {
+  activeThreadId: string | null;
+  onOpen: (thread: ChatThread) => void;
+  onNew: () => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+const ChatThreadList: React.FC<ChatThreadListProps> = ({ activeThreadId, onOpen, onNew, onDeleted, onClose }) => {
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ThreadSearchResult[]>([]);
+
+  const refresh = () => {
+    listThreads().then(setThreads).catch(e => console.error("Could not load chats", e));
+  };
+
+  useEffect(refresh, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    searchThreads(query)
+      .then(found => { if (!cancelled) setResults(found); })
+      .catch(e => console.error("Search failed", e));
+    return () => { cancelled = true; };
+  }, [query]);
+
+  const handleRename = async (thread: ChatThread) => {
+    const title = window.prompt('Name this chat', thread.title)?.trim();
+    if (!title) return;
+    await saveThread({ ...thread, title });
+    refresh();
+  };
+
+  const handleDelete = async (thread: ChatThread) => {
+    if (!window.confirm(`Delete "${thread.title}"?`)) return;
+    await deleteThread(thread.id);
+    onDeleted(thread.id);
+    refresh();
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-slate-50">
+      <div className="flex items-center gap-2 p-4 bg-white border-b border-slate-200">
+        <button onClick={onClose} className="p-1 text-slate-500 hover:text-slate-800">
+          <ArrowLeft size={20} />
+        </button>
+        <h2 className="font-bold text-slate-800 flex-1">My Chats</h2>
+        <button
+          onClick={onNew}
+          className="flex items-center gap-1 text-sm bg-teal-600 text-white px-3 py-1.5 rounded-lg hover:bg-teal-700"
+        >
+          <Plus size={16} /> New
+        </button>
+      </div>
+
+      <div className="p-4 pb-0">
+        <div className="flex items-center gap-2 bg-white border border-slate-300 rounded-xl px-3">
+          <Search size={16} className="text-slate-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search all past answers..."
+            className="flex-1 py-2 focus:outline-none"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {query.trim() ? (
+          <>
+            {results.length === 0 && <p className="text-sm text-slate-400 text-center py-8">No messages match "{query}".</p>}
+            {results.map(({ thread, message, snippet }) => (
+              <button
+                key={`${thread.id}-${message.id}`}
+                onClick={() => onOpen(thread)}
+                className="w-full text-left bg-white p-3 rounded-xl border border-slate-200 hover:border-teal-300"
+              >
+                <p className="text-xs font-semibold text-teal-700">{thread.title}</p>
+                <p className="text-sm text-slate-700 mt-1">{snippet}</p>
+                <p className="text-[10px] text-slate-400 mt-1">{new Date(message.timestamp).toLocaleString()}</p>
+              </button>
+            ))}
+          </>
+        ) : (
+          <>
+            {threads.length === 0 && <p className="text-sm text-slate-400 text-center py-8">No saved chats yet.</p>}
+            {threads.map(thread => (
+              <div
+                key={thread.id}
+                className={`flex items-center gap-3 bg-white p-3 rounded-xl border ${
+                  thread.id === activeThreadId ? 'border-teal-500' : 'border-slate-200'
+                }`}
+              >
+                <button onClick={() => onOpen(thread)} className="flex-1 min-w-0 text-left flex items-center gap-3">
+                  <MessageSquare size={18} className="text-teal-600 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-slate-800 truncate">{thread.title}</p>
+                    <p className="text-xs text-slate-400">
+                      {thread.messages.length} messages · {new Date(thread.updatedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </button>
+                <button onClick={() => handleRename(thread)} className="text-slate-300 hover:text-teal-600" title="Rename">
+                  <Pencil size={16} />
+                </button>
+                <button onClick={() => handleDelete(thread)} className="text-slate-300 hover:text-red-500" title="Delete">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChatThreadList;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { GrammarCheckResult, GrammarError } from '../types';
+import { diffWords, tokenize, DiffSegment } from '../utils/textDiff';
+
+interface CorrectionDiffProps {
+  original: string;
+  result: GrammarCheckResult;
+}
+
+export const CATEGORY_LABELS: Record<string, string> = {
+  tense: 'Tense',
+  article: 'Article',
+  preposition: 'Preposition',
+  word_order: 'Word order',
+  agreement: 'Agreement',
+  spelling: 'Spelling',
+  vocabulary: 'Vocabulary',
+  punctuation: 'Punctuation',
+  other: 'Other'
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, '').trim();
+
+// Find which reported error a changed chunk of the diff belongs to, so we can number it inline
+const findErrorIndex = (segment: DiffSegment, errors: GrammarError[]): number => {
+  const text = normalize(segment.text);
+  if (!text) return -1;
+  return errors.findIndex(err => {
+    const side = normalize(segment.op === 'removed' ? err.original : err.correction);
+    return side && (side.includes(text) || text.includes(side));
+  });
+};
+
+const CorrectionDiff: React.FC<CorrectionDiffProps> = ({ original, result }) => {
+  const segments = diffWords(tokenize(original), tokenize(result.corrected));
+
+  return (
+    <div className="space-y-3">
+      <p className="text-lg leading-relaxed">
+        {segments.map((segment, i) => {
+          const errorIndex = segment.op === 'equal' ? -1 : findErrorIndex(segment, result.errors);
+          const badge = errorIndex >= 0 && (
+            <sup className="ml-0.5 text-[10px] font-bold text-slate-500">{errorIndex + 1}</sup>
+          );
+          if (segment.op === 'removed') {
+            return (
+              <span key={i}>
+                <del className="bg-red-100 text-red-700 px-1 rounded">{segment.text}</del>{badge}{' '}
+              </span>
+            );
+          }
+          if (segment.op === 'added') {
+            return (
+              <span key={i}>
+                <ins className="bg-green-100 text-green-800 px-1 rounded no-underline font-medium">{segment.text}</ins>{badge}{' '}
+              </span>
+            );
+          }
+          return <span key={i} className="text-slate-800">{segment.text} </span>;
+        })}
+      </p>
+
+      {result.errors.length > 0 && (
+        <ol className="space-y-2">
+          {result.errors.map((err, i) => (
+            <li key={i} className="text-sm bg-white/60 rounded-lg p-2 border border-yellow-100">
+              <div className="flex items-center gap-2 mb-1">
+                <span className="font-bold text-slate-500">{i + 1}.</span>
+                <span className="text-[10px] uppercase font-bold bg-yellow-200 text-yellow-800 px-2 py-0.5 rounded-full">
+                  {CATEGORY_LABELS[err.category] || err.category}
+                </span>
+                <span className="text-slate-700">
+                  <span className="line-through text-red-600">{err.original}</span> → <span className="text-green-700 font-medium">{err.correction}</span>
+                </span>
+              </div>
+              <p className="text-slate-600">{err.explanation}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {result.explanation && <p className="text-sm text-slate-600">{result.explanation}</p>}
+    </div>
+  );
+};
+
+export default CorrectionDiff;
@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { Headphones, Volume2, Snail, Sparkles, BookOpen, Layers, ArrowRight } from 'lucide-react';
+import { CardSource, DictationResult, DictationSession, LearnerProfile } from '../types';
+import { getBackend } from '../utils/backend';
+import { speak } from '../utils/speech';
+import { addToDeck } from '../utils/deck';
+import { failureMessage } from '../utils/errors';
+import { diffChars } from '../utils/textDiff';
+import {
+  DictationScore, DictationWord, SENTENCES_PER_SESSION, loadDictationSessions, normalizeDictationWord, pickBankSentences,
+  saveDictationSession, scoreDictation, sessionScore
+} from '../utils/dictation';
+
+interface DictationPracticeProps {
+  profile: LearnerProfile;
+}
+
+const percent = (score: number) => `${Math.round(score * 100)}%`;
+
+const scoreColor = (score: number) => (score >= 0.85 ? 'text-green-600' : score >= 0.6 ? 'text-yellow-600' : 'text-red-600');
+
+// One word of the marked answer. Spelling mistakes are shown letter by letter.
+const MarkedWord: React.FC<{ word: DictationWord }> = ({ word }) => {
+  if (word.op === 'match') return <span className="px-1 rounded bg-green-100 text-green-800">{word.expected}</span>;
+  if (word.op === 'missed') {
+    return <span className="px-1 rounded bg-red-100 text-red-700 underline decoration-dotted" title="Missed">{word.expected}</span>;
+  }
+  if (word.op === 'extra') return <del className="px-1 rounded bg-slate-100 text-slate-400" title="Not in the sentence">{word.heard}</del>;
+  if (word.misspelled) {
+    return (
+      <span className="px-1 rounded bg-yellow-50 border border-yellow-200" title={`You wrote "${word.heard}"`}>
+        {diffChars(normalizeDictationWord(word.heard!), normalizeDictationWord(word.expected!)).map((segment, i) =>
+          segment.op === 'removed' ? <del key={i} className="text-red-600">{segment.text}</del>
+            : segment.op === 'added' ? <ins key={i} className="text-green-700 font-semibold no-underline">{segment.text}</ins>
+            : <span key={i} className="text-slate-800">{segment.text}</span>
+        )}
+      </span>
+    );
+  }
+  return (
+    <span className="px-1 rounded bg-red-50">
+      <del className="text-red-600">{word.heard}</del> <ins className="text-green-700 font-medium no-underline">{word.expected}</ins>
+    </span>
+  );
+};
+
+// Hear a sentence, type it, see what was missed or misspelled
+const DictationPractice: React.FC<DictationPracticeProps> = ({ profile }) => {
+  const { settings } = profile;
+  const [session, setSession] = useState<DictationSession | null>(null);
+  const [sentences, setSentences] = useState<string[]>([]);
+  const [index, setIndex] = useState(0);
+  const [answer, setAnswer] = useState('');
+  const [score, setScore] = useState<DictationScore | null>(null);
+  const [plays, setPlays] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pastSessions, setPastSessions] = useState<DictationSession[]>(loadDictationSessions);
+
+  const sentence = sentences[index];
+  const isFinished = !!session && index >= sentences.length;
+
+  const play = async (text: string, slow = false) => {
+    if (isPlaying) return;
+    setIsPlaying(true);
+    setError(null);
+    try {
+      await speak(text, settings, slow);
+      setPlays(p => p + 1);
+    } catch (e) {
+      console.error(e);
+      setError(failureMessage(e, settings));
+    } finally {
+      setIsPlaying(false);
+    }
+  };
+
+  const begin = (list: string[], generated: boolean) => {
+    setSentences(list);
+    setIndex(0);
+    setAnswer('');
+    setScore(null);
+    setPlays(0);
+    setSession({ id: `${Date.now()}`, startedAt: Date.now(), level: settings.level, generated, results: [] });
+    play(list[0]);
+  };
+
+  const startFromBank = () => begin(pickBankSentences(settings.level), false);
+
+  const startGenerated = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const generated = await getBackend().generateDictation(profile, SENTENCES_PER_SESSION);
+      if (generated.length === 0) throw new Error('No sentences came back');
+      begin(generated, true);
+    } catch (e) {
+      console.error(e);
+      setError(failureMessage(e, settings));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCheck = () => {
+    if (!session || !sentence || !answer.trim() || score) return;
+    const scored = scoreDictation(sentence, answer);
+    setScore(scored);
+    const result: DictationResult = {
+      sentence,
+      answer: answer.trim(),
+      wordScore: scored.wordScore,
+      charScore: scored.charScore,
+      misspelled: scored.misspelled,
+      replays: Math.max(0, plays - 1)
+    };
+    const updated = { ...session, results: [...session.results, result] };
+    setSession(updated);
+    saveDictationSession(updated);
+    scored.misspelled.forEach(word => addToDeck(word, `Spelling, from: "${sentence}"`, CardSource.DICTATION));
+  };
+
+  const handleNext = () => {
+    const next = index + 1;
+    setIndex(next);
+    setAnswer('');
+    setScore(null);
+    setPlays(0);
+    if (next < sentences.length) play(sentences[next]);
+    else setPastSessions(loadDictationSessions());
+  };
+
+  const handleClose = () => {
+    setSession(null);
+    setSentences([]);
+    setPastSessions(loadDictationSessions());
+  };
+
+  const sessionMisspelled = session ? [...new Set<string>(session.results.flatMap(r => r.misspelled))] : [];
+
+  return (
+    <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+      <h3 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
+        <Headphones className="text-sky-600" /> Dictation
+      </h3>
+
+      {!session && (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-500">
+            Listen to {SENTENCES_PER_SESSION} sentences and type each one. Capital letters and punctuation don't count.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={startFromBank}
+              disabled={isLoading}
+              className="flex items-center gap-2 bg-sky-600 text-white px-4 py-2 rounded-lg hover:bg-sky-700 disabled:opacity-50"
+            >
+              <BookOpen size={18} /> Practice sentences ({settings.level})
+            </button>
+            <button
+              onClick={startGenerated}
+              disabled={isLoading}
+              className="flex items-center gap-2 bg-slate-100 text-slate-700 px-4 py-2 rounded-lg hover:bg-slate-200 disabled:opacity-50"
+            >
+              <Sparkles size={18} /> {isLoading ? 'Writing sentences...' : 'New sentences for my level'}
+            </button>
+          </div>
+          {pastSessions.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs uppercase font-semibold text-slate-400">Recent sessions</p>
+              {pastSessions.slice(0, 5).map(past => (
+                <div key={past.id} className="flex justify-between text-sm text-slate-600">
+                  <span>
+                    {new Date(past.startedAt).toLocaleDateString()} · {past.level} · {past.results.length} sentence{past.results.length === 1 ? '' : 's'}
+                  </span>
+                  <span className={`font-semibold ${scoreColor(sessionScore(past))}`}>{percent(sessionScore(past))}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {session && !isFinished && sentence && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm text-slate-500">
+            <span>Sentence {index + 1} of {sentences.length}</span>
+            {plays > 1 && <span>Played {plays} times</span>}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => play(sentence)}
+              disabled={isPlaying}
+              className="flex items-center gap-2 bg-sky-600 text-white px-4 py-2 rounded-lg hover:bg-sky-700 disabled:opacity-50"
+            >
+              <Volume2 size={18} /> {isPlaying ? 'Playing...' : 'Play'}
+            </button>
+            <button
+              onClick={() => play(sentence, true)}
+              disabled={isPlaying}
+              className="flex items-center gap-2 bg-slate-100 text-slate-700 px-4 py-2 rounded-lg hover:bg-slate-200 disabled:opacity-50"
+            >
+              <Snail size={18} /> Slowly
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={answer}
+              onChange={(e) => setAnswer(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCheck()}
+              placeholder="Type what you heard"
+              className="flex-1 p-3 border border-slate-300 rounded-lg"
+              disabled={!!score}
+              autoCapitalize="off"
+              autoCorrect="off"
+              spellCheck={false}
+            />
+            {score ? (
+              <button onClick={handleNext} className="flex items-center gap-1 bg-slate-800 text-white px-4 py-2 rounded-lg hover:bg-slate-900">
+                {index + 1 < sentences.length ? 'Next' : 'Finish'} <ArrowRight size={16} />
+              </button>
+            ) : (
+              <button
+                onClick={handleCheck}
+                disabled={!answer.trim()}
+                className="bg-slate-800 text-white px-4 py-2 rounded-lg hover:bg-slate-900 disabled:opacity-50"
+              >
+                Check
+              </button>
+            )}
+          </div>
+
+          {score && (
+            <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 space-y-3">
+              <div className="flex gap-6">
+                <div>
+                  <p className="text-xs uppercase font-semibold text-slate-500">Words</p>
+                  <p className={`text-2xl font-bold ${scoreColor(score.wordScore)}`}>{percent(score.wordScore)}</p>
+                </div>
+                <div>
+                  <p className="text-xs uppercase font-semibold text-slate-500">Letters</p>
+                  <p className={`text-2xl font-bold ${scoreColor(score.charScore)}`}>{percent(score.charScore)}</p>
+                </div>
+              </div>
+              <p className="flex flex-wrap gap-1 text-lg">
+                {score.words.map((word, i) => <MarkedWord key={i} word={word} />)}
+              </p>
+              <p className="text-sm text-slate-600">{sentence}</p>
+              {score.misspelled.length > 0 && (
+                <p className="text-xs text-slate-500 flex items-center gap-1">
+                  <Layers size={12} /> {score.misspelled.join(', ')} added to your review deck
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {isFinished && session && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="font-bold text-slate-800">Session complete</p>
+            <p className={`text-2xl font-bold ${scoreColor(sessionScore(session))}`}>{percent(sessionScore(session))}</p>
+          </div>
+          <ul className="space-y-1 text-sm">
+            {session.results.map((result, i) => (
+              <li key={i} className="flex justify-between gap-3">
+                <span className="text-slate-700">{result.sentence}</span>
+                <span className={`font-semibold ${scoreColor(result.charScore)}`}>{percent(result.charScore)}</span>
+              </li>
+            ))}
+          </ul>
+          {sessionMisspelled.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-100 p-3 rounded-lg text-sm">
+              <p className="font-semibold text-slate-700 mb-1">Words to practise</p>
+              <div className="flex flex-wrap gap-2">
+                {sessionMisspelled.map(word => (
+                  <button
+                    key={word}
+                    onClick={() => play(word, true)}
+                    className="flex items-center gap-1 bg-white border border-yellow-200 px-2 py-0.5 rounded-full text-slate-700 hover:border-yellow-400"
+                    title="Hear it"
+                  >
+                    <Volume2 size={12} /> {word}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500 mt-2">They are in your review deck too.</p>
+            </div>
+          )}
+          <button onClick={handleClose} className="bg-sky-600 text-white px-4 py-2 rounded-lg hover:bg-sky-700">
+            Done
+          </button>
+        </div>
+      )}
+
+      {error && <p className="w-full p-4 rounded-lg border mt-3 bg-red-50 border-red-200 text-red-600 text-sm">{error}</p>}
+    </section>
+  );
+};
+
+export default DictationPractice;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Trash2, AlertCircle, BookA } from 'lucide-react';
+import { MistakeEntry, VocabEntry } from '../types';
+import { loadMistakes, loadVocabulary, deleteMistake, deleteVocabulary } from '../utils/journal';
+import { LANGUAGE_NAMES } from '../utils/prompts';
+
+interface LearningJournalProps {
+  onClose: () => void;
+}
+
+type JournalTab = 'mistakes' | 'words';
+
+const LearningJournal: React.FC<LearningJournalProps> = ({ onClose }) => {
+  const [tab, setTab] = useState<JournalTab>('mistakes');
+  const [mistakes, setMistakes] = useState<MistakeEntry[]>(loadMistakes);
+  const [vocabulary, setVocabulary] = useState<VocabEntry[]>(loadVocabulary);
+
+  const handleDeleteMistake = (id: string) => {
+    deleteMistake(id);
+    setMistakes(loadMistakes());
+  };
+
+  const handleDeleteWord = (id: string) => {
+    deleteVocabulary(id);
+    setVocabulary(loadVocabulary());
+  };
+
+  const tabClass = (t: JournalTab) =>
+    `flex-1 py-2 text-sm font-semibold border-b-2 transition-colors ${
+      tab === t ? 'border-teal-600 text-teal-700' : 'border-transparent text-slate-400 hover:text-slate-600'
+    }`;
+
+  return (
+    <div className="flex flex-col h-full bg-slate-50">
+      <div className="flex items-center gap-2 p-4 bg-white border-b border-slate-200">
+        <button onClick={onClose} className="p-1 text-slate-500 hover:text-slate-800">
+          <ArrowLeft size={20} />
+        </button>
+        <h2 className="font-bold text-slate-800">My Journal</h2>
+      </div>
+      <div className="flex bg-white border-b border-slate-200">
+        <button onClick={() => setTab('mistakes')} className={tabClass('mistakes')}>
+          Mistakes ({mistakes.length})
+        </button>
+        <button onClick={() => setTab('words')} className={tabClass('words')}>
+          New Words ({vocabulary.length})
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {tab === 'mistakes' && mistakes.length === 0 && (
+          <p className="text-sm text-slate-400 text-center py-8">Corrections from your conversations will appear here.</p>
+        )}
+        {tab === 'mistakes' && mistakes.map(m => (
+          <div key={m.id} className="bg-white p-4 rounded-xl border border-slate-200 flex gap-3">
+            <AlertCircle size={18} className="text-yellow-500 shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <p className="text-slate-500 line-through decoration-red-400">{m.original}</p>
+              <p className="text-slate-800 font-medium">{m.corrected}</p>
+              <p className="text-[10px] uppercase font-bold text-slate-400 mt-1">
+                {m.category.replace('_', ' ')} · {new Date(m.timestamp).toLocaleDateString()}
+              </p>
+            </div>
+            <button onClick={() => handleDeleteMistake(m.id)} className="text-slate-300 hover:text-red-500 self-start">
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+
+        {tab === 'words' && vocabulary.length === 0 && (
+          <p className="text-sm text-slate-400 text-center py-8">New words from your conversations will appear here.</p>
+        )}
+        {tab === 'words' && vocabulary.map(v => (
+          <div key={v.id} className="bg-white p-4 rounded-xl border border-slate-200 flex gap-3">
+            <BookA size={18} className="text-teal-600 shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <p className="text-slate-800 font-semibold">{v.word}</p>
+              {v.meaning ? (
+                <p className="text-sm text-slate-600">{v.language && `${LANGUAGE_NAMES[v.language]}: `}{v.meaning}</p>
+              ) : (
+                <>
+                  {v.meaningHi && <p className="text-sm text-slate-600">हिंदी: {v.meaningHi}</p>}
+                  {v.meaningKn && <p className="text-sm text-slate-600">ಕನ್ನಡ: {v.meaningKn}</p>}
+                </>
+              )}
+            </div>
+            <button onClick={() => handleDeleteWord(v.id)} className="text-slate-300 hover:text-red-500 self-start">
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LearningJournal;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { NotebookText, Volume2 } from 'lucide-react';
+import { LessonSummary, TutorSettings } from '../types';
+import { speak } from '../utils/speech';
+import { failureMessage } from '../utils/errors';
+
+interface LessonSummaryCardProps {
+  summary: LessonSummary;
+  settings: TutorSettings;
+}
+
+// What a Live call covered, shown after hanging up and again in Past Conversations
+const LessonSummaryCard: React.FC<LessonSummaryCardProps> = ({ summary, settings }) => {
+  const [playing, setPlaying] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const play = async (text: string) => {
+    if (playing) return;
+    setPlaying(text);
+    setError(null);
+    try {
+      await speak(text, settings);
+    } catch (e) {
+      console.error(e);
+      setError(failureMessage(e, settings));
+    } finally {
+      setPlaying(null);
+    }
+  };
+
+  const playButton = (text: string) => (
+    <button
+      onClick={() => play(text)}
+      disabled={!!playing}
+      className={`shrink-0 ${playing === text ? 'text-teal-800 animate-pulse' : 'text-teal-600 hover:text-teal-800'} disabled:cursor-default`}
+      title="Hear it"
+    >
+      <Volume2 size={16} />
+    </button>
+  );
+
+  return (
+    <section className="w-full bg-white p-5 rounded-2xl shadow-sm border border-slate-200 space-y-4 text-left">
+      <h3 className="font-bold text-slate-800 flex items-center gap-2">
+        <NotebookText className="text-teal-600" size={20} /> Lesson summary
+      </h3>
+
+      {summary.topics.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {summary.topics.map(topic => (
+            <span key={topic} className="text-xs bg-teal-50 text-teal-700 border border-teal-100 px-2 py-1 rounded-full">{topic}</span>
+          ))}
+        </div>
+      )}
+
+      {summary.mistakes.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs uppercase font-semibold text-slate-500">Corrections</p>
+          {summary.mistakes.map((mistake, i) => (
+            <div key={i} className="text-sm bg-yellow-50 border border-yellow-100 rounded-lg p-2 space-y-1">
+              <p className="line-through text-red-600">{mistake.original}</p>
+              <p className="flex items-center gap-2 text-green-700 font-medium">{mistake.corrected} {playButton(mistake.corrected)}</p>
+              <p className="text-slate-600">{mistake.explanation}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {summary.newWords.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs uppercase font-semibold text-slate-500">New words</p>
+          <ul className="space-y-1 text-sm">
+            {summary.newWords.map(entry => (
+              <li key={entry.word} className="flex items-center gap-2">
+                {playButton(entry.word)}
+                <span className="font-semibold text-slate-800">{entry.word}</span>
+                <span className="text-slate-500">{entry.meaning}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {summary.practiceSentences.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs uppercase font-semibold text-slate-500">Say these aloud</p>
+          <ol className="space-y-1 text-sm">
+            {summary.practiceSentences.map((sentence, i) => (
+              <li key={i} className="flex items-center gap-2 text-slate-800">
+                <span className="text-slate-400">{i + 1}.</span>
+                <span className="flex-1">{sentence}</span>
+                {playButton(sentence)}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {error && <p className="p-3 rounded-lg border bg-red-50 border-red-200 text-red-600 text-sm">{error}</p>}
+    </section>
+  );
+};
+
+export default LessonSummaryCard;
@@ -1,34 +1,80 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { Mic, MicOff, Volume2, Globe, Wifi, WifiOff } from 'lucide-react';
-import { createBlob, decodeAudioData, base64ToArrayBuffer } from '../utils/audioUtils';
+import { LiveServerMessage } from '@google/genai';
+import { Mic, MicOff, Globe, Wifi, WifiOff, History, Loader2, NotebookPen } from 'lucide-react';
+import { getBackend } from '../utils/backend';
+import { pcm16ToBlob, decodeAudioData, base64ToArrayBuffer } from '../utils/audioUtils';
+import { createCaptureNode, CAPTURE_SAMPLE_RATE } from '../utils/captureWorklet';
+import { attachSummary, saveTranscript } from '../utils/transcripts';
+import { createCallRecorder, CallRecorder } from '../utils/callRecorder';
+import { saveRecording } from '../utils/recordings';
+import { explanationLanguageName } from '../utils/prompts';
+import { MARK_GOAL_COMPLETE, LOG_MISTAKE, ADD_VOCABULARY, REPORT_SPEAKING_LEVEL } from '../utils/liveTools';
+import { parseLevel } from '../utils/placement';
+import { logMistake, addVocabulary } from '../utils/journal';
+import { addToDeck } from '../utils/deck';
+import { recordActivity } from '../utils/activity';
+import { isBlocked } from '../utils/usage';
+import { hasUsableModel } from '../utils/models';
+import { classifyCloseReason, classifyError, failureMessage, isTransient, messageForKind } from '../utils/errors';
+import { CardSource, ChatMessage, ExplanationLanguage, GrammarErrorCategory, FailureKind, LearnerProfile, LessonSummary, LiveConnectionState, LiveTranscript, ModelCapability, Scenario, Sender, SkillResult, UsageFeature } from '../types';
 import AudioVisualizer from './AudioVisualizer';
+import TranscriptView from './TranscriptView';
+import TranscriptHistory from './TranscriptHistory';
+import ScenarioPicker from './ScenarioPicker';
+import ScenarioGoals from './ScenarioGoals';
+import LearningJournal from './LearningJournal';
+import LessonSummaryCard from './LessonSummaryCard';
 
 interface LiveConversationProps {
-  apiKey: string;
+  profile: LearnerProfile;
+  // Set by the placement test: runs the speaking interview instead of a tutoring call
+  onSpeakingAssessed?: (result: SkillResult) => void;
 }
 
-const SYSTEM_INSTRUCTION = `
-You are "LingoMate", a patient and friendly English tutor.
-The user speaks Hindi and Kannada and is learning English.
-Your goal is to have a conversation with them on any topic they like.
-If they make a grammar mistake, correct them gently in English, but use Hindi or Kannada to explain *why* if the concept is difficult.
-Encourage them to repeat phrases.
-Keep your responses relatively short and conversational.
-Speak slowly and clearly.
-`;
-
-const LiveConversation: React.FC<LiveConversationProps> = ({ apiKey }) => {
-  const [isConnected, setIsConnected] = useState(false);
+// Reconnect backoff: 1s, 2s, 4s... capped, then give up
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+
+// Mic audio captured while reconnecting is held and sent once we're back, up to this much
+const MAX_BUFFERED_AUDIO_MS = 5000;
+
+// After the placement verdict, let the tutor finish saying goodbye before hanging up
+const PLACEMENT_HANGUP_DELAY_MS = 4000;
+
+// A call where the learner barely spoke isn't worth a lesson summary
+const MIN_TURNS_FOR_SUMMARY = 2;
+
+const STATUS_LABELS: Record<LiveConnectionState, string> = {
+  [LiveConnectionState.CONNECTING]: 'Connecting...',
+  [LiveConnectionState.LIVE]: 'Connected to Gemini Live',
+  [LiveConnectionState.RECONNECTING]: 'Reconnecting...',
+  [LiveConnectionState.CLOSED]: 'Disconnected',
+  [LiveConnectionState.FAILED]: 'Connection lost'
+};
+
+const LiveConversation: React.FC<LiveConversationProps> = ({ profile, onSpeakingAssessed }) => {
+  const { settings } = profile;
+  const isPlacement = !!onSpeakingAssessed;
+  const [connectionState, setConnectionState] = useState<LiveConnectionState>(LiveConnectionState.CLOSED);
   const [isTalking, setIsTalking] = useState(false);
+  const [droppedAudio, setDroppedAudio] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [captions, setCaptions] = useState<ChatMessage[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [scenario, setScenario] = useState<Scenario | null>(null);
+  const [completedGoals, setCompletedGoals] = useState<Set<string>>(new Set());
+  const [showJournal, setShowJournal] = useState(false);
+  const [loggedCounts, setLoggedCounts] = useState({ mistakes: 0, words: 0 });
+  const [lessonSummary, setLessonSummary] = useState<LessonSummary | null>(null);
+  const [isSummarizing, setIsSummarizing] = useState(false);
   
   // Audio Refs
   const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
   const outputNodeRef = useRef<GainNode | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const captureNodeRef = useRef<AudioWorkletNode | null>(null);
   const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   
   // Visualizer Refs
@@ -37,13 +83,138 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ apiKey }) => {
   
   // Logic Refs
   const sessionRef = useRef<any>(null);
+  const connectionStateRef = useRef<LiveConnectionState>(LiveConnectionState.CLOSED);
+  const connectionIdRef = useRef(0); // Ignore callbacks from sockets we've already replaced
+  const resumptionHandleRef = useRef<string | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<number | null>(null);
+  const hangupTimerRef = useRef<number | null>(null);
+  const pendingAudioRef = useRef<Int16Array[]>([]);
+  const lastFailureRef = useRef<unknown>(null); // Explains the give-up message after repeated reconnects
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
 
+  // Transcript Refs (refs so the socket callbacks always see the latest values)
+  const transcriptRef = useRef<ChatMessage[]>([]);
+  const openTurnRef = useRef<{ [role in Sender]?: string }>({});
+  const sessionStartRef = useRef<number>(0);
+  const recorderRef = useRef<CallRecorder | null>(null);
+
+  // Transcription arrives in fragments; keep appending to the open turn for that speaker
+  const appendTranscription = (role: Sender, text: string) => {
+    const openId = openTurnRef.current[role];
+    if (openId) {
+      transcriptRef.current = transcriptRef.current.map(m =>
+        m.id === openId ? { ...m, text: m.text + text } : m
+      );
+    } else {
+      const msg: ChatMessage = {
+        id: `${Date.now()}-${role}`,
+        role,
+        text: text.trimStart(),
+        timestamp: Date.now()
+      };
+      transcriptRef.current = [...transcriptRef.current, msg];
+      openTurnRef.current[role] = msg.id;
+    }
+    // The other speaker's turn is over once this one starts talking
+    openTurnRef.current[role === Sender.USER ? Sender.MODEL : Sender.USER] = undefined;
+    setCaptions(transcriptRef.current);
+  };
+
+  // Returns the saved transcript, if there was anything to save
+  const persistTranscript = (): LiveTranscript | null => {
+    const messages = transcriptRef.current.filter(m => m.text.trim());
+    const recording = recorderRef.current?.finish() ?? null;
+    recorderRef.current = null;
+    transcriptRef.current = [];
+    openTurnRef.current = {};
+    // Placement interviews are assessments, not practice; keep them out of the history
+    if (messages.length === 0 || isPlacement) return null;
+
+    const id = sessionStartRef.current.toString();
+    const transcript: LiveTranscript = {
+      id,
+      startedAt: sessionStartRef.current,
+      endedAt: Date.now(),
+      messages,
+      scenarioId: scenario?.id,
+      hasRecording: !!recording
+    };
+    saveTranscript(transcript);
+    if (recording) {
+      saveRecording({ id, profileId: profile.id, createdAt: sessionStartRef.current, ...recording })
+        .catch(e => console.warn('Could not save the call recording', e));
+    }
+    return transcript;
+  };
+
+  // After hanging up: turn the transcript into a lesson card, kept with the call in the history
+  const summarizeCall = async (transcript: LiveTranscript) => {
+    if (transcript.messages.filter(m => m.role === Sender.USER).length < MIN_TURNS_FOR_SUMMARY) return;
+    const profileId = profile.id;
+    // A new call may have started by the time it's written; the summary still goes into the history
+    const isLatestCall = () => sessionStartRef.current.toString() === transcript.id;
+    setIsSummarizing(true);
+    try {
+      const summary = await getBackend().summarizeLesson(profile, transcript.messages);
+      attachSummary(transcript.id, summary, profileId);
+      if (isLatestCall()) setLessonSummary(summary);
+    } catch (err) {
+      console.error(err);
+      if (isLatestCall()) setError(failureMessage(err, settings));
+    } finally {
+      setIsSummarizing(false);
+    }
+  };
+
+  // Runs a tutor tool call and returns the response to send back to the model
+  const handleToolCall = (name: string | undefined, args: Record<string, unknown>): Record<string, unknown> => {
+    const sessionId = sessionStartRef.current.toString();
+    switch (name) {
+      case MARK_GOAL_COMPLETE: {
+        const goalId = String(args.goal_id ?? '');
+        setCompletedGoals(prev => new Set(prev).add(goalId));
+        return { result: 'ok' };
+      }
+      case LOG_MISTAKE: {
+        const original = String(args.original ?? '');
+        const corrected = String(args.corrected ?? '');
+        if (!corrected) return { error: 'corrected is required' };
+        const { category } = logMistake({ original, corrected, category: String(args.category ?? '') as GrammarErrorCategory, sessionId });
+        recordActivity({ mistakes: [category] });
+        addToDeck(corrected, `Not: "${original}"`, CardSource.LIVE_SESSION);
+        setLoggedCounts(prev => ({ ...prev, mistakes: prev.mistakes + 1 }));
+        return { result: 'logged' };
+      }
+      case ADD_VOCABULARY: {
+        const word = String(args.word ?? '');
+        if (!word) return { error: 'word is required' };
+        const meaning = String(args.meaning ?? '');
+        addVocabulary({ word, meaning, language: settings.nativeLanguage, sessionId });
+        addToDeck(word, meaning, CardSource.LIVE_SESSION);
+        setLoggedCounts(prev => ({ ...prev, words: prev.words + 1 }));
+        return { result: 'saved' };
+      }
+      case REPORT_SPEAKING_LEVEL: {
+        const level = parseLevel(args.level);
+        if (!level || !onSpeakingAssessed) return { error: 'level must be one of A1, A2, B1, B2, C1' };
+        onSpeakingAssessed({ level, note: String(args.summary ?? '') || undefined });
+        if (hangupTimerRef.current === null) {
+          hangupTimerRef.current = window.setTimeout(stopSession, PLACEMENT_HANGUP_DELAY_MS);
+        }
+        return { result: 'recorded' };
+      }
+      default:
+        return { error: `Unknown tool ${name}` };
+    }
+  };
+
   const cleanupAudio = () => {
-    if (processorRef.current) {
-      processorRef.current.disconnect();
-      processorRef.current = null;
+    if (captureNodeRef.current) {
+      captureNodeRef.current.port.onmessage = null;
+      captureNodeRef.current.disconnect();
+      captureNodeRef.current = null;
     }
     if (sourceRef.current) {
       sourceRef.current.disconnect();
@@ -69,13 +240,257 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ apiKey }) => {
     sourcesRef.current.clear();
   };
 
+  const updateConnectionState = (state: LiveConnectionState) => {
+    connectionStateRef.current = state;
+    setConnectionState(state);
+  };
+
+  const sendAudio = (pcm: Int16Array) => {
+    if (connectionStateRef.current === LiveConnectionState.LIVE && sessionRef.current) {
+      const pcmBlob = pcm16ToBlob(pcm, CAPTURE_SAMPLE_RATE);
+      sessionRef.current.then((session: any) => {
+        session.sendRealtimeInput({ media: pcmBlob });
+      }).catch((e: unknown) => {
+          console.error("Error sending audio input:", e);
+      });
+      return;
+    }
+    if (connectionStateRef.current !== LiveConnectionState.RECONNECTING) return;
+
+    // Hold on to the most recent audio so whatever the learner says during a blip still reaches the tutor
+    const pending = pendingAudioRef.current;
+    pending.push(pcm);
+    const maxSamples = (MAX_BUFFERED_AUDIO_MS / 1000) * CAPTURE_SAMPLE_RATE;
+    let total = pending.reduce((sum, chunk) => sum + chunk.length, 0);
+    while (total > maxSamples && pending.length > 1) {
+      total -= pending.shift()!.length;
+      setDroppedAudio(true);
+    }
+  };
+
+  const handleCapturedAudio = (pcm: Int16Array) => {
+    recorderRef.current?.addMic(pcm);
+    sendAudio(pcm);
+  };
+
+  const flushPendingAudio = () => {
+    const pending = pendingAudioRef.current;
+    pendingAudioRef.current = [];
+    pending.forEach(sendAudio);
+  };
+
+  const clearReconnectTimer = () => {
+    if (reconnectTimerRef.current !== null) {
+      window.clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+  };
+
+  const endCall = (finalState: LiveConnectionState): LiveTranscript | null => {
+    // Only the first end of a call counts its minutes; later calls find it already closed
+    const wasInCall = connectionStateRef.current !== LiveConnectionState.CLOSED && connectionStateRef.current !== LiveConnectionState.FAILED;
+    if (wasInCall) recordActivity({ liveSeconds: (Date.now() - sessionStartRef.current) / 1000 });
+    clearReconnectTimer();
+    if (hangupTimerRef.current !== null) {
+      window.clearTimeout(hangupTimerRef.current);
+      hangupTimerRef.current = null;
+    }
+    connectionIdRef.current++;
+    pendingAudioRef.current = [];
+    resumptionHandleRef.current = null;
+    const transcript = persistTranscript();
+    cleanupAudio();
+    updateConnectionState(finalState);
+    setIsTalking(false);
+    return transcript;
+  };
+
+  const scheduleReconnect = (immediate = false) => {
+    if (reconnectTimerRef.current !== null) return;
+    if (reconnectAttemptRef.current >= MAX_RECONNECT_ATTEMPTS) {
+      const kind = classifyError(lastFailureRef.current);
+      setError(messageForKind(kind === FailureKind.UNKNOWN ? FailureKind.OFFLINE : kind, settings));
+      endCall(LiveConnectionState.FAILED);
+      return;
+    }
+    const delay = immediate
+      ? 0
+      : Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttemptRef.current);
+    reconnectAttemptRef.current++;
+    updateConnectionState(LiveConnectionState.RECONNECTING);
+    reconnectTimerRef.current = window.setTimeout(() => {
+      reconnectTimerRef.current = null;
+      connect();
+    }, delay);
+  };
+
+  // Opens (or re-opens) the socket. The audio pipeline outlives individual connections.
+  const connect = () => {
+    const connectionId = ++connectionIdRef.current;
+    const isCurrent = () => connectionId === connectionIdRef.current;
+
+    // Replace any socket that's still hanging around
+    const previous = sessionRef.current;
+    if (previous) {
+      previous.then((session: any) => session.close()).catch(() => { /* already gone */ });
+    }
+
+    const sessionPromise = getBackend().connectLive(
+      { profile, scenario, resumptionHandle: resumptionHandleRef.current, placement: isPlacement },
+      {
+        onopen: () => {
+          if (!isCurrent()) return;
+          console.log('Session connected');
+          reconnectAttemptRef.current = 0;
+          updateConnectionState(LiveConnectionState.LIVE);
+          setIsTalking(true);
+          setError(null);
+          flushPendingAudio();
+        },
+        onmessage: async (message: LiveServerMessage) => {
+          if (!isCurrent()) return;
+
+          // Keep the latest resumption handle so a reconnect picks up the same conversation
+          const resumption = message.sessionResumptionUpdate;
+          if (resumption?.resumable && resumption.newHandle) {
+            resumptionHandleRef.current = resumption.newHandle;
+          }
+
+          // Usage is recorded by the backend; hang up once that uses up the budget
+          if (message.usageMetadata && isBlocked(UsageFeature.LIVE)) {
+            setError(messageForKind(FailureKind.BUDGET_REACHED, settings));
+            stopSession();
+            return;
+          }
+
+          // The server is about to close this connection; move to a fresh one now
+          if (message.goAway) {
+            console.log('Server asked us to reconnect', message.goAway.timeLeft);
+            scheduleReconnect(true);
+            return;
+          }
+
+          // Handle Tool Calls
+          if (message.toolCall?.functionCalls?.length) {
+            const functionResponses = message.toolCall.functionCalls.map(call => ({
+              id: call.id,
+              name: call.name,
+              response: handleToolCall(call.name, call.args || {})
+            }));
+            sessionPromise
+              .then(session => { if (isCurrent()) session.sendToolResponse({ functionResponses }); })
+              .catch(e => console.warn('Could not answer the tool call', e));
+          }
+
+          // Handle Captions
+          const inputText = message.serverContent?.inputTranscription?.text;
+          if (inputText) appendTranscription(Sender.USER, inputText);
+          const outputText = message.serverContent?.outputTranscription?.text;
+          if (outputText) appendTranscription(Sender.MODEL, outputText);
+          if (message.serverContent?.turnComplete) openTurnRef.current = {};
+
+          // Handle Audio Output
+          const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+          if (base64Audio && outputAudioContextRef.current && outputNodeRef.current) {
+            const ctx = outputAudioContextRef.current;
+            
+            nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+            
+            const audioBuffer = await decodeAudioData(
+              base64ToArrayBuffer(base64Audio),
+              ctx,
+              24000,
+              1
+            );
+            
+            const source = ctx.createBufferSource();
+            source.buffer = audioBuffer;
+            source.connect(outputNodeRef.current);
+            
+            source.addEventListener('ended', () => {
+              sourcesRef.current.delete(source);
+            });
+
+            source.start(nextStartTimeRef.current);
+            recorderRef.current?.addTutor(audioBuffer, nextStartTimeRef.current);
+            nextStartTimeRef.current += audioBuffer.duration;
+            sourcesRef.current.add(source);
+          }
+
+          // Handle Interruption
+          if (message.serverContent?.interrupted) {
+            if (outputAudioContextRef.current) recorderRef.current?.cutTutor(outputAudioContextRef.current.currentTime);
+            sourcesRef.current.forEach(src => {
+              try { src.stop(); } catch(e) {}
+            });
+            sourcesRef.current.clear();
+            nextStartTimeRef.current = 0;
+          }
+        },
+        onclose: (event) => {
+          if (!isCurrent()) return;
+          console.log('Session closed', event?.code, event?.reason);
+          // A policy close (limits, unknown model) won't go away by reconnecting
+          if (event?.code === 1008) {
+            const kind = classifyCloseReason(event.reason);
+            // Unless the model was retired and the backend has a fallback: start afresh on that one
+            if (kind === FailureKind.UNSUPPORTED_MODEL && hasUsableModel(ModelCapability.LIVE_AUDIO)) {
+              resumptionHandleRef.current = null;
+              scheduleReconnect(true);
+              return;
+            }
+            setError(messageForKind(kind, settings));
+            endCall(LiveConnectionState.FAILED);
+            return;
+          }
+          scheduleReconnect();
+        },
+        onerror: (err) => {
+          if (!isCurrent()) return;
+          console.error(err);
+          lastFailureRef.current = err;
+          scheduleReconnect();
+        }
+      }
+    );
+
+    sessionRef.current = sessionPromise;
+    sessionPromise.catch((err: unknown) => {
+      if (!isCurrent()) return;
+      console.error(err);
+      lastFailureRef.current = err;
+      // Known failures that reconnecting can't fix (budget, quota, missing model) end the call
+      const kind = classifyError(err);
+      if (kind !== FailureKind.UNKNOWN && !isTransient(kind)) {
+        setError(failureMessage(err, settings));
+        endCall(LiveConnectionState.FAILED);
+        return;
+      }
+      scheduleReconnect();
+    });
+  };
+
   const startSession = async () => {
+    if (isBlocked(UsageFeature.LIVE)) {
+      setError(messageForKind(FailureKind.BUDGET_REACHED, settings));
+      return;
+    }
     setError(null);
+    lastFailureRef.current = null;
+    setDroppedAudio(false);
+    setCaptions([]);
+    setCompletedGoals(new Set());
+    setLoggedCounts({ mistakes: 0, words: 0 });
+    setLessonSummary(null);
+    transcriptRef.current = [];
+    openTurnRef.current = {};
+    sessionStartRef.current = Date.now();
+    resumptionHandleRef.current = null;
+    reconnectAttemptRef.current = 0;
+    updateConnectionState(LiveConnectionState.CONNECTING);
     try {
-      const ai = new GoogleGenAI({ apiKey });
-      
-      // Initialize Audio Contexts
-      inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+      // Initialize Audio Contexts. The input runs at the device's native rate; the capture worklet resamples.
+      inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
       outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
       
       // Setup Output Node & Analyser
@@ -91,116 +506,36 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ apiKey }) => {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       streamRef.current = stream;
 
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        callbacks: {
-          onopen: () => {
-            console.log('Session connected');
-            setIsConnected(true);
-            setIsTalking(true);
-
-            // Setup Input Processing
-            if (!inputAudioContextRef.current || !streamRef.current) return;
-            
-            const source = inputAudioContextRef.current.createMediaStreamSource(streamRef.current);
-            sourceRef.current = source;
-            source.connect(inputAnalyserRef.current!); // Connect to visualizer
-
-            const processor = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
-            processorRef.current = processor;
-
-            processor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              sessionPromise.then(session => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              }).catch(e => {
-                  console.error("Error sending audio input:", e);
-              });
-            };
-
-            source.connect(processor);
-            processor.connect(inputAudioContextRef.current.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            // Handle Audio Output
-            const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (base64Audio && outputAudioContextRef.current && outputNodeRef.current) {
-              const ctx = outputAudioContextRef.current;
-              
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              
-              const audioBuffer = await decodeAudioData(
-                base64ToArrayBuffer(base64Audio),
-                ctx,
-                24000,
-                1
-              );
-              
-              const source = ctx.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(outputNodeRef.current);
-              
-              source.addEventListener('ended', () => {
-                sourcesRef.current.delete(source);
-              });
-
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += audioBuffer.duration;
-              sourcesRef.current.add(source);
-            }
-
-            // Handle Interruption
-            if (message.serverContent?.interrupted) {
-              sourcesRef.current.forEach(src => {
-                try { src.stop(); } catch(e) {}
-              });
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-            }
-          },
-          onclose: () => {
-            console.log('Session closed');
-            setIsConnected(false);
-            setIsTalking(false);
-          },
-          onerror: (err) => {
-            console.error(err);
-            setError("Connection error. Please try again.");
-            setIsConnected(false);
-          }
-        },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Fenrir' } }
-          },
-          systemInstruction: SYSTEM_INSTRUCTION
-        }
-      });
-
-      sessionRef.current = sessionPromise;
+      // Setup Input Processing
+      const source = inputAudioContextRef.current.createMediaStreamSource(stream);
+      sourceRef.current = source;
+      source.connect(inputAnalyserRef.current); // Connect to visualizer
+      // Record the call from here, so mic samples and tutor playback share one timeline
+      if (!isPlacement) recorderRef.current = createCallRecorder(outputAudioContextRef.current.currentTime);
+      captureNodeRef.current = await createCaptureNode(inputAudioContextRef.current, source, handleCapturedAudio);
 
+      connect();
     } catch (err) {
       console.error(err);
-      setError("Failed to access microphone or connect to AI.");
-      cleanupAudio();
+      setError(failureMessage(err, settings));
+      endCall(LiveConnectionState.FAILED);
     }
   };
 
   const stopSession = async () => {
-    if (sessionRef.current) {
+    const sessionPromise = sessionRef.current;
+    sessionRef.current = null;
+    // Bump the connection id first so the close callback doesn't trigger a reconnect
+    const transcript = endCall(LiveConnectionState.CLOSED);
+    if (transcript) summarizeCall(transcript);
+    if (sessionPromise) {
       try {
-          const session = await sessionRef.current;
+          const session = await sessionPromise;
           session.close();
       } catch (e) {
           console.error("Error closing session", e);
       }
-      sessionRef.current = null;
     }
-    cleanupAudio();
-    setIsConnected(false);
-    setIsTalking(false);
   };
 
   // Cleanup on unmount
@@ -211,20 +546,42 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ apiKey }) => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const isLive = connectionState === LiveConnectionState.LIVE;
+  const isConnected = isLive || connectionState === LiveConnectionState.RECONNECTING;
+  const inCall = isConnected || connectionState === LiveConnectionState.CONNECTING;
+
+  if (showHistory) {
+    return <TranscriptHistory settings={settings} onClose={() => setShowHistory(false)} />;
+  }
+
+  if (showJournal) {
+    return <LearningJournal onClose={() => setShowJournal(false)} />;
+  }
+
   return (
-    <div className="flex flex-col items-center justify-center h-full p-6 space-y-8 animate-fade-in">
+    <div className="flex flex-col items-center justify-center h-full p-6 space-y-8 animate-fade-in overflow-y-auto">
       <div className="text-center space-y-2">
-        <h2 className="text-3xl font-bold text-slate-800">Conversation Practice</h2>
-        <p className="text-slate-600">Speak naturally. I will help you with English!</p>
-        <p className="text-sm text-slate-500 flex items-center justify-center gap-2">
-            <Globe className="w-4 h-4" /> Supports Hindi & Kannada explanations
+        <h2 className="text-3xl font-bold text-slate-800">{isPlacement ? 'Speaking Check' : 'Conversation Practice'}</h2>
+        <p className="text-slate-600">
+          {isPlacement
+            ? 'Answer a few questions out loud. Just do your best!'
+            : scenario ? `Role-play: ${scenario.title}` : 'Speak naturally. I will help you with English!'}
         </p>
+        {!isPlacement && (
+          <p className="text-sm text-slate-500 flex items-center justify-center gap-2">
+              <Globe className="w-4 h-4" />
+              {settings.explanationLanguage === ExplanationLanguage.ENGLISH
+                ? 'Explanations in simple English'
+                : `Explanations in ${explanationLanguageName(settings)}`}
+          </p>
+        )}
       </div>
 
       <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 flex flex-col items-center gap-6 min-h-[300px] justify-center relative overflow-hidden">
         {isConnected ? (
           <>
             <div className="flex flex-col w-full gap-4">
+               {scenario && <ScenarioGoals scenario={scenario} completed={completedGoals} />}
                <div className="w-full bg-teal-50 rounded-lg p-2 border border-teal-100">
                  <p className="text-xs text-teal-600 font-bold mb-1 uppercase text-center">AI Voice</p>
                  <AudioVisualizer analyser={outputAnalyserRef.current} isActive={isConnected} color="#0d9488" />
@@ -233,18 +590,42 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ apiKey }) => {
                  <p className="text-xs text-orange-600 font-bold mb-1 uppercase text-center">Your Voice</p>
                  <AudioVisualizer analyser={inputAnalyserRef.current} isActive={isConnected} color="#ea580c" />
                </div>
+               <div className="w-full max-h-48 overflow-y-auto bg-slate-50 rounded-lg p-2 border border-slate-100">
+                 <TranscriptView messages={captions} autoScroll />
+               </div>
+               {(loggedCounts.mistakes > 0 || loggedCounts.words > 0) && (
+                 <p className="text-xs text-slate-500 text-center flex items-center justify-center gap-1">
+                   <NotebookPen size={12} />
+                   Saved to your journal: {loggedCounts.mistakes} correction{loggedCounts.mistakes === 1 ? '' : 's'}, {loggedCounts.words} new word{loggedCounts.words === 1 ? '' : 's'}
+                 </p>
+               )}
             </div>
             <div className="absolute top-4 right-4 animate-pulse">
                <span className="flex h-3 w-3 relative">
-                <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75"></span>
-                <span className="relative inline-flex rounded-full h-3 w-3 bg-green-500"></span>
+                <span className={`animate-ping absolute inline-flex h-full w-full rounded-full opacity-75 ${isLive ? 'bg-green-400' : 'bg-yellow-400'}`}></span>
+                <span className={`relative inline-flex rounded-full h-3 w-3 ${isLive ? 'bg-green-500' : 'bg-yellow-500'}`}></span>
               </span>
             </div>
+            {!isLive && (
+              <div className="w-full bg-yellow-50 text-yellow-800 p-3 rounded-lg text-sm text-center flex items-center justify-center gap-2">
+                <Loader2 className="animate-spin" size={16} />
+                {droppedAudio
+                  ? 'Reconnecting... some of what you said could not be sent. Please repeat it.'
+                  : 'Reconnecting... keep talking, I will catch up.'}
+              </div>
+            )}
           </>
-        ) : (
-           <div className="text-slate-300">
-             <Volume2 size={80} />
+        ) : connectionState === LiveConnectionState.CONNECTING ? (
+           <div className="text-teal-500 flex flex-col items-center gap-2">
+             <Loader2 className="animate-spin" size={48} />
+             <p className="text-sm text-slate-500">Connecting...</p>
            </div>
+        ) : isPlacement ? (
+           <p className="text-slate-600 text-center">
+             The tutor will ask you about yourself, starting easy and getting harder. It takes about three minutes.
+           </p>
+        ) : (
+           <ScenarioPicker selectedId={scenario?.id ?? null} onSelect={setScenario} />
         )}
         
         {error && (
@@ -254,8 +635,19 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ apiKey }) => {
         )}
       </div>
 
+      {!inCall && isSummarizing && (
+        <p className="text-sm text-slate-500 flex items-center gap-2">
+          <Loader2 className="animate-spin" size={16} /> Writing your lesson summary...
+        </p>
+      )}
+      {!inCall && lessonSummary && (
+        <div className="w-full max-w-md">
+          <LessonSummaryCard summary={lessonSummary} settings={settings} />
+        </div>
+      )}
+
       <div className="flex gap-4">
-        {!isConnected ? (
+        {!inCall ? (
           <button
             onClick={startSession}
             className="flex items-center gap-3 bg-teal-600 hover:bg-teal-700 text-white px-8 py-4 rounded-full text-xl font-semibold shadow-lg transition-all transform hover:scale-105"
@@ -273,10 +665,29 @@ const LiveConversation: React.FC<LiveConversationProps> = ({ apiKey }) => {
           </button>
         )}
       </div>
+
+      {!inCall && !isPlacement && (
+        <div className="flex gap-6">
+          <button
+            onClick={() => setShowHistory(true)}
+            className="flex items-center gap-2 text-sm text-teal-700 hover:text-teal-900 font-medium"
+          >
+            <History size={16} />
+            Past Conversations
+          </button>
+          <button
+            onClick={() => setShowJournal(true)}
+            className="flex items-center gap-2 text-sm text-teal-700 hover:text-teal-900 font-medium"
+          >
+            <NotebookPen size={16} />
+            My Journal
+          </button>
+        </div>
+      )}
       
       <div className="text-xs text-slate-400 flex items-center gap-1">
-        {isConnected ? <Wifi className="w-3 h-3 text-green-500" /> : <WifiOff className="w-3 h-3" />}
-        Status: {isConnected ? 'Connected to Gemini Live' : 'Disconnected'}
+        {isLive ? <Wifi className="w-3 h-3 text-green-500" /> : <WifiOff className="w-3 h-3" />}
+        Status: {STATUS_LABELS[connectionState]}
       </div>
     </div>
   );
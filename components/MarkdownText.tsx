@@ -0,0 +1,116 @@
+import React from 'react';
+import { BlockNode, InlineNode, parseMarkdown, safeHref } from '../utils/markdown';
+
+interface MarkdownTextProps {
+  text: string;
+  sources?: Record<number, { uri?: string; title?: string }>;
+}
+
+const renderInline = (nodes: InlineNode[], sources: MarkdownTextProps['sources']): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case 'strong':
+        return <strong key={i} className="font-semibold">{renderInline(node.children, sources)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(node.children, sources)}</em>;
+      case 'code':
+        return <code key={i} className="bg-slate-100 text-pink-700 px-1 rounded text-[0.9em]">{node.text}</code>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noreferrer" className="text-blue-600 underline">
+            {renderInline(node.children, sources)}
+          </a>
+        );
+      case 'cite':
+        return (
+          <sup key={i} className="ml-0.5">
+            {node.indices.map(n => {
+              const source = sources?.[n];
+              const href = source?.uri ? safeHref(source.uri) : null;
+              return href ? (
+                <a
+                  key={n}
+                  href={href}
+                  target="_blank"
+                  rel="noreferrer"
+                  title={source.title}
+                  className="text-[10px] font-bold text-blue-600 bg-blue-50 rounded px-1 mx-px no-underline hover:bg-blue-100"
+                >
+                  {n}
+                </a>
+              ) : (
+                <span key={n} className="text-[10px] font-bold text-slate-400 px-1">{n}</span>
+              );
+            })}
+          </sup>
+        );
+      case 'br':
+        return <br key={i} />;
+    }
+  });
+
+const renderBlock = (block: BlockNode, i: number, sources: MarkdownTextProps['sources']) => {
+  switch (block.type) {
+    case 'heading': {
+      const size = block.level === 1 ? 'text-lg' : block.level === 2 ? 'text-base' : 'text-sm';
+      return <p key={i} className={`${size} font-bold text-slate-900`}>{renderInline(block.children, sources)}</p>;
+    }
+    case 'paragraph':
+      return <p key={i}>{renderInline(block.children, sources)}</p>;
+    case 'list': {
+      const items = block.items.map((item, j) => <li key={j}>{renderInline(item, sources)}</li>);
+      return block.ordered
+        ? <ol key={i} className="list-decimal pl-5 space-y-1">{items}</ol>
+        : <ul key={i} className="list-disc pl-5 space-y-1">{items}</ul>;
+    }
+    case 'code':
+      return (
+        <pre key={i} className="bg-slate-100 rounded-lg p-3 text-sm overflow-x-auto">
+          <code>{block.text}</code>
+        </pre>
+      );
+    case 'table':
+      return (
+        <div key={i} className="overflow-x-auto">
+          <table className="text-sm border-collapse">
+            <thead>
+              <tr>
+                {block.header.map((cell, j) => (
+                  <th key={j} className="border border-slate-200 bg-slate-50 px-2 py-1 text-left font-semibold">
+                    {renderInline(cell, sources)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r}>
+                  {row.map((cell, j) => (
+                    <td key={j} className="border border-slate-200 px-2 py-1 align-top">{renderInline(cell, sources)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'quote':
+      return (
+        <blockquote key={i} className="border-l-4 border-teal-200 pl-3 text-slate-600 italic">
+          {renderInline(block.children, sources)}
+        </blockquote>
+      );
+    case 'hr':
+      return <hr key={i} className="border-slate-200" />;
+  }
+};
+
+const MarkdownText: React.FC<MarkdownTextProps> = ({ text, sources }) => (
+  <div className="space-y-2 leading-relaxed break-words">
+    {parseMarkdown(text).map((block, i) => renderBlock(block, i, sources))}
+  </div>
+);
+
+export default MarkdownText;
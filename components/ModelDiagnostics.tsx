@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, ArrowLeft, Check, Cpu, RotateCcw } from 'lucide-react';
+import { ModelCapability } from '../types';
+import { MODEL_REGISTRY, activeModel, clearModelFailures, modelFailures, onModelChange, recentModelFailures } from '../utils/models';
+
+interface ModelDiagnosticsProps {
+  onClose: () => void;
+}
+
+// Which model each feature is using, and any that were skipped because the API no longer has them
+const ModelDiagnostics: React.FC<ModelDiagnosticsProps> = ({ onClose }) => {
+  const [, setVersion] = useState(0);
+
+  useEffect(() => onModelChange(() => setVersion(v => v + 1)), []);
+
+  const events = recentModelFailures();
+
+  return (
+    <div className="p-6 space-y-6 h-full overflow-y-auto bg-slate-50">
+      <div className="flex items-center gap-2">
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700" title="Back to settings">
+          <ArrowLeft size={20} />
+        </button>
+        <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <Cpu className="text-teal-600" /> Model diagnostics
+        </h2>
+      </div>
+
+      {Object.values(ModelCapability).map(capability => {
+        const { label, models } = MODEL_REGISTRY[capability];
+        const active = activeModel(capability);
+        const failed = new Map(modelFailures(capability).map(f => [f.model, f]));
+        return (
+          <section key={capability} className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="font-bold text-slate-800">{label}</h3>
+              {active !== models[0] && (
+                <span className="text-[10px] uppercase font-bold bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full">Fallback</span>
+              )}
+            </div>
+            <ol className="space-y-1 text-sm">
+              {models.map((model, i) => {
+                const failure = failed.get(model);
+                return (
+                  <li key={model} className="flex items-start gap-2">
+                    <span className="w-4 text-slate-400">{i + 1}.</span>
+                    <div className="flex-1">
+                      <p className={`font-mono text-xs ${model === active ? 'text-slate-800 font-semibold' : failure ? 'text-slate-400 line-through' : 'text-slate-600'}`}>
+                        {model}
+                      </p>
+                      {failure && (
+                        <p className="text-xs text-red-600">
+                          {new Date(failure.timestamp).toLocaleString()}: {failure.reason}
+                        </p>
+                      )}
+                    </div>
+                    {model === active && <Check size={16} className="text-green-600 shrink-0" />}
+                    {failure && model !== active && <AlertTriangle size={16} className="text-red-500 shrink-0" />}
+                  </li>
+                );
+              })}
+            </ol>
+          </section>
+        );
+      })}
+
+      {events.length > 0 && (
+        <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-2">
+          <h3 className="font-bold text-slate-800">Fallback log</h3>
+          {events.map(event => (
+            <div key={`${event.capability}-${event.model}`} className="flex justify-between gap-3 text-xs text-slate-600">
+              <span>{new Date(event.timestamp).toLocaleString()} · {MODEL_REGISTRY[event.capability].label}</span>
+              <span className="font-mono text-slate-400">{event.model}</span>
+            </div>
+          ))}
+        </section>
+      )}
+
+      <p className="text-xs text-slate-500">
+        When a model is reported missing or retired, the next one in the list is used. Skipped models are tried again after a day.
+      </p>
+      <button
+        onClick={clearModelFailures}
+        disabled={events.length === 0}
+        className="flex items-center gap-2 text-sm text-slate-500 hover:text-teal-700 disabled:opacity-50"
+      >
+        <RotateCcw size={16} /> Try the preferred models again
+      </button>
+    </div>
+  );
+};
+
+export default ModelDiagnostics;
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { ArrowLeft, CheckCircle2, GraduationCap, SkipForward } from 'lucide-react';
+import { LearnerProfile, PlacementResult, PlacementSkill, SkillResult } from '../types';
+import { PLACEMENT_ITEMS, PlacementItem } from '../data/placement';
+import { LEVEL_ORDER, SKILL_LABELS, combineSkills, failedLevel, scoreSkill } from '../utils/placement';
+import { LEVEL_DESCRIPTIONS } from '../utils/prompts';
+import LiveConversation from './LiveConversation';
+
+interface PlacementTestProps {
+  profile: LearnerProfile;
+  onComplete: (result: PlacementResult) => void;
+  onCancel: () => void;
+}
+
+type Step = 'intro' | PlacementSkill | 'result';
+
+const TYPED_SKILLS = [PlacementSkill.GRAMMAR, PlacementSkill.VOCABULARY] as const;
+
+const itemsFor = (skill: PlacementSkill) => PLACEMENT_ITEMS.filter(item => item.skill === skill);
+
+// Grammar and vocabulary questions, then a short Live interview, then a suggested level
+const PlacementTest: React.FC<PlacementTestProps> = ({ profile, onComplete, onCancel }) => {
+  const [step, setStep] = useState<Step>('intro');
+  const [index, setIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, number>>({});
+  const [skills, setSkills] = useState<PlacementResult['skills']>({});
+
+  const finishSkill = (skill: PlacementSkill, result: SkillResult | null) => {
+    const nextSkills = result ? { ...skills, [skill]: result } : skills;
+    setSkills(nextSkills);
+    setIndex(0);
+    if (skill === PlacementSkill.GRAMMAR) setStep(PlacementSkill.VOCABULARY);
+    else if (skill === PlacementSkill.VOCABULARY) setStep(PlacementSkill.SPEAKING);
+    else setStep('result');
+  };
+
+  const handleAnswer = (skill: PlacementSkill, item: PlacementItem, choice: number) => {
+    const nextAnswers = { ...answers, [item.id]: choice };
+    setAnswers(nextAnswers);
+    const items = itemsFor(skill);
+    if (index + 1 >= items.length || failedLevel(items, nextAnswers, item.level)) {
+      finishSkill(skill, scoreSkill(items, nextAnswers));
+    } else {
+      setIndex(index + 1);
+    }
+  };
+
+  const header = (
+    <div className="flex items-center gap-2">
+      <button onClick={onCancel} className="p-1 text-slate-400 hover:text-slate-700" title="Back to settings">
+        <ArrowLeft size={20} />
+      </button>
+      <h2 className="text-xl font-bold text-slate-800">Find my level</h2>
+    </div>
+  );
+
+  if (step === 'intro') {
+    return (
+      <div className="p-6 space-y-6 h-full overflow-y-auto bg-slate-50">
+        {header}
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-4 text-slate-700">
+          <GraduationCap size={40} className="text-teal-600" />
+          <p>A short test to find the right level for {profile.name}. It has three parts:</p>
+          <ol className="list-decimal list-inside space-y-1">
+            <li>Grammar: pick the right word</li>
+            <li>Vocabulary: pick the right word</li>
+            <li>Speaking: a three-minute chat with the tutor</li>
+          </ol>
+          <p className="text-sm text-slate-500">The questions get harder as you go. It is fine to get some wrong.</p>
+          <button
+            onClick={() => setStep(PlacementSkill.GRAMMAR)}
+            className="w-full py-3 bg-teal-600 text-white rounded-xl font-semibold hover:bg-teal-700"
+          >
+            Start
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (step === PlacementSkill.GRAMMAR || step === PlacementSkill.VOCABULARY) {
+    const items = itemsFor(step);
+    const item = items[index];
+    return (
+      <div className="p-6 space-y-6 h-full overflow-y-auto bg-slate-50">
+        {header}
+        <div className="space-y-1">
+          <p className="text-sm font-semibold text-teal-700">
+            Part {TYPED_SKILLS.indexOf(step) + 1} of 3 · {SKILL_LABELS[step]}
+          </p>
+          <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+            <div className="h-full bg-teal-500 transition-all" style={{ width: `${(index / items.length) * 100}%` }} />
+          </div>
+        </div>
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-4">
+          <p className="text-lg font-medium text-slate-800">{item.prompt}</p>
+          <div className="space-y-2">
+            {item.options.map((option, i) => (
+              <button
+                key={option}
+                onClick={() => handleAnswer(step, item, i)}
+                className="w-full text-left p-3 rounded-xl border border-slate-300 hover:border-teal-400 hover:bg-teal-50 text-slate-700"
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (step === PlacementSkill.SPEAKING) {
+    const speaking = skills[PlacementSkill.SPEAKING];
+    return (
+      <div className="flex flex-col h-full">
+        <div className="flex-1 overflow-hidden">
+          <LiveConversation
+            profile={profile}
+            onSpeakingAssessed={result => setSkills(prev => ({ ...prev, [PlacementSkill.SPEAKING]: result }))}
+          />
+        </div>
+        <div className="p-3 border-t border-slate-200 bg-white flex justify-end">
+          {speaking ? (
+            <button
+              onClick={() => finishSkill(PlacementSkill.SPEAKING, speaking)}
+              className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-xl font-medium hover:bg-teal-700"
+            >
+              <CheckCircle2 size={18} /> See my result
+            </button>
+          ) : (
+            <button
+              onClick={() => finishSkill(PlacementSkill.SPEAKING, null)}
+              className="flex items-center gap-2 px-4 py-2 text-sm text-slate-500 hover:text-slate-800"
+            >
+              <SkipForward size={16} /> Skip speaking
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const level = combineSkills(skills);
+  return (
+    <div className="p-6 space-y-6 h-full overflow-y-auto bg-slate-50">
+      {header}
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 text-center space-y-1">
+        <p className="text-sm text-slate-500">Suggested level</p>
+        <p className="text-5xl font-bold text-teal-700">{level}</p>
+        <p className="text-slate-600">For {LEVEL_DESCRIPTIONS[level]}.</p>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-4">
+        {Object.values(PlacementSkill).map(skill => {
+          const result = skills[skill];
+          return (
+            <div key={skill} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium text-slate-700">{SKILL_LABELS[skill]}</span>
+                <span className="text-slate-500">{result ? result.level : 'Skipped'}</span>
+              </div>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                {result && (
+                  <div
+                    className="h-full bg-teal-500"
+                    style={{ width: `${((LEVEL_ORDER.indexOf(result.level) + 1) / LEVEL_ORDER.length) * 100}%` }}
+                  />
+                )}
+              </div>
+              {result?.note && <p className="text-xs text-slate-500">{result.note}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <button
+          onClick={() => onComplete({ level, skills, takenAt: Date.now() })}
+          className="w-full py-3 bg-teal-600 text-white rounded-xl font-semibold hover:bg-teal-700"
+        >
+          Use level {level}
+        </button>
+        <button onClick={onCancel} className="w-full py-2 text-sm text-slate-500 hover:text-slate-800">
+          Keep {profile.settings.level}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PlacementTest;
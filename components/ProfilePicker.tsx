@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Check, Plus, Trash2, UserRound, X } from 'lucide-react';
+import { LearnerLevel, LearnerProfile, NativeLanguage } from '../types';
+import { canDeleteProfile, createProfile, deleteProfile, loadProfiles } from '../utils/profiles';
+import { LANGUAGE_NAMES } from '../utils/prompts';
+
+interface ProfilePickerProps {
+  activeId: string;
+  onSelect: (profile: LearnerProfile) => void;
+  onClose: () => void;
+}
+
+// Switch between the family's learners, or add a new one
+const ProfilePicker: React.FC<ProfilePickerProps> = ({ activeId, onSelect, onClose }) => {
+  const [profiles, setProfiles] = useState<LearnerProfile[]>(loadProfiles);
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [nativeLanguage, setNativeLanguage] = useState<NativeLanguage>(NativeLanguage.HINDI);
+  const [level, setLevel] = useState<LearnerLevel>(LearnerLevel.A2);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    if (!name.trim()) return;
+    const profile = createProfile(name, { nativeLanguage, level });
+    onSelect(profile);
+  };
+
+  const handleDelete = async (profile: LearnerProfile) => {
+    if (!window.confirm(`Delete ${profile.name}? Their chats, call recordings, review cards and journal will be removed too.`)) return;
+    setError(null);
+    try {
+      await deleteProfile(profile.id);
+    } catch (e) {
+      console.error(e);
+      setError(`Could not delete ${profile.name}'s saved chats and recordings. Please try again.`);
+    }
+    setProfiles(loadProfiles());
+  };
+
+  return (
+    <div className="absolute inset-0 z-20 bg-black/40 flex items-start justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-sm mt-12 p-4 space-y-3" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="font-bold text-slate-800">Who is learning?</h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          {profiles.map(profile => (
+            <div
+              key={profile.id}
+              onClick={() => onSelect(profile)}
+              className={`flex items-center gap-3 p-3 rounded-xl border cursor-pointer transition-colors ${
+                profile.id === activeId ? 'border-teal-500 bg-teal-50' : 'border-slate-200 hover:border-teal-300'
+              }`}
+            >
+              <UserRound size={20} className="text-teal-600" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-slate-800 truncate">{profile.name}</p>
+                <p className="text-xs text-slate-500">
+                  {LANGUAGE_NAMES[profile.settings.nativeLanguage]} · {profile.settings.level}
+                </p>
+              </div>
+              {profile.id === activeId && <Check size={18} className="text-teal-600" />}
+              {profile.id !== activeId && canDeleteProfile(profile.id) && (
+                <button
+                  onClick={e => { e.stopPropagation(); handleDelete(profile); }}
+                  className="p-1 text-slate-300 hover:text-red-500"
+                  title={`Delete ${profile.name}`}
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="p-3 rounded-lg border bg-red-50 border-red-200 text-red-600 text-sm">{error}</p>}
+
+        {isAdding ? (
+          <div className="space-y-2 border-t border-slate-100 pt-3">
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Name"
+              autoFocus
+              className="w-full p-2 border border-slate-300 rounded-lg"
+            />
+            <div className="flex gap-2">
+              <select
+                value={nativeLanguage}
+                onChange={e => setNativeLanguage(e.target.value as NativeLanguage)}
+                className="flex-1 p-2 border border-slate-300 rounded-lg bg-white"
+                aria-label="Native language"
+              >
+                {Object.values(NativeLanguage).map(language => (
+                  <option key={language} value={language}>{LANGUAGE_NAMES[language]}</option>
+                ))}
+              </select>
+              <select
+                value={level}
+                onChange={e => setLevel(e.target.value as LearnerLevel)}
+                className="p-2 border border-slate-300 rounded-lg bg-white"
+                aria-label="Level"
+              >
+                {Object.values(LearnerLevel).map(l => (
+                  <option key={l} value={l}>{l}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-2 justify-end">
+              <button onClick={() => setIsAdding(false)} className="px-3 py-2 text-sm text-slate-500 hover:text-slate-800">
+                Cancel
+              </button>
+              <button
+                onClick={handleAdd}
+                disabled={!name.trim()}
+                className="px-4 py-2 text-sm bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+              >
+                Add learner
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="w-full flex items-center justify-center gap-2 p-3 rounded-xl border border-dashed border-slate-300 text-slate-600 hover:border-teal-400 hover:text-teal-700"
+          >
+            <Plus size={18} /> Add a learner
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePicker;
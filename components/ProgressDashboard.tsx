@@ -0,0 +1,214 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart3, Flame, TrendingDown, TrendingUp, Minus } from 'lucide-react';
+import { LearnerProfile } from '../types';
+import { activityRange, currentStreak, loadActivity, longestStreak, mistakeTotals } from '../utils/activity';
+import { CATEGORY_LABELS } from './CorrectionDiff';
+
+interface ProgressDashboardProps {
+  profile: LearnerProfile;
+}
+
+type Range = 'week' | 'month';
+
+const RANGE_DAYS: Record<Range, number> = { week: 7, month: 30 };
+
+const RING_RADIUS = 52;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+const minutesOf = (seconds: number) => Math.round(seconds / 60);
+
+const dayLabel = (key: string, range: Range) => {
+  const [year, month, day] = key.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return range === 'week' ? date.toLocaleDateString(undefined, { weekday: 'short' }) : String(day);
+};
+
+// Today's talk time against the learner's daily goal
+const GoalRing: React.FC<{ minutes: number; goal: number }> = ({ minutes, goal }) => {
+  const progress = Math.min(1, minutes / goal);
+  return (
+    <div className="relative w-32 h-32 shrink-0">
+      <svg viewBox="0 0 120 120" className="w-full h-full -rotate-90">
+        <circle cx="60" cy="60" r={RING_RADIUS} fill="none" stroke="#e2e8f0" strokeWidth="12" />
+        <circle
+          cx="60" cy="60" r={RING_RADIUS} fill="none"
+          stroke={progress >= 1 ? '#16a34a' : '#0d9488'} strokeWidth="12" strokeLinecap="round"
+          strokeDasharray={RING_CIRCUMFERENCE}
+          strokeDashoffset={RING_CIRCUMFERENCE * (1 - progress)}
+          className="transition-all"
+        />
+      </svg>
+      <div className="absolute inset-0 flex flex-col items-center justify-center">
+        <span className="text-2xl font-bold text-slate-800">{minutes}</span>
+        <span className="text-xs text-slate-500">of {goal} min</span>
+      </div>
+    </div>
+  );
+};
+
+// Bars per day; each series is stacked in the order given
+const DayBars: React.FC<{
+  days: { key: string }[];
+  series: { label: string; color: string; values: number[] }[];
+  range: Range;
+}> = ({ days, series, range }) => {
+  const totals = days.map((_, i) => series.reduce((sum, s) => sum + s.values[i], 0));
+  const max = Math.max(1, ...totals);
+  return (
+    <div className="space-y-2">
+      <div className="flex items-end gap-1 h-28">
+        {days.map((day, i) => (
+          <div key={day.key} className="flex-1 h-full flex flex-col justify-end" title={`${day.key}: ${totals[i]}`}>
+            {series.map(s => s.values[i] > 0 && (
+              <div key={s.label} className={`${s.color} first:rounded-t`} style={{ height: `${(s.values[i] / max) * 100}%` }} />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        {days.map((day, i) => (
+          <span key={day.key} className="flex-1 text-center text-[10px] text-slate-400">
+            {range === 'week' || i % 5 === 0 ? dayLabel(day.key, range) : ''}
+          </span>
+        ))}
+      </div>
+      {series.length > 1 && (
+        <div className="flex gap-4 text-xs text-slate-500">
+          {series.map(s => (
+            <span key={s.label} className="flex items-center gap-1">
+              <span className={`w-2 h-2 rounded-sm ${s.color}`} /> {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Compares with the same length of time just before, so the family can see improvement
+const Change: React.FC<{ now: number; before: number; lowerIsBetter?: boolean }> = ({ now, before, lowerIsBetter }) => {
+  if (now === before) return <Minus size={14} className="text-slate-400" />;
+  const better = lowerIsBetter ? now < before : now > before;
+  const Icon = now > before ? TrendingUp : TrendingDown;
+  return <Icon size={14} className={better ? 'text-green-600' : 'text-red-500'} />;
+};
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ profile }) => {
+  const [range, setRange] = useState<Range>('week');
+  const log = useMemo(loadActivity, []);
+
+  const days = activityRange(log, RANGE_DAYS[range]);
+  const previous = activityRange(log, RANGE_DAYS[range], RANGE_DAYS[range]);
+  const today = days[days.length - 1];
+
+  const sum = (list: typeof days, pick: (day: typeof days[number]) => number) => list.reduce((total, day) => total + pick(day), 0);
+  const stats = [
+    { label: 'Talk minutes', now: minutesOf(sum(days, d => d.liveSeconds)), before: minutesOf(sum(previous, d => d.liveSeconds)) },
+    { label: 'Grammar checks', now: sum(days, d => d.grammarChecks), before: sum(previous, d => d.grammarChecks) },
+    { label: 'Chat questions', now: sum(days, d => d.chatQuestions), before: sum(previous, d => d.chatQuestions) }
+  ];
+
+  const mistakes = mistakeTotals(days).slice(0, 5);
+  const previousMistakes = Object.fromEntries(mistakeTotals(previous));
+  const streak = currentStreak(log);
+
+  return (
+    <div className="p-6 space-y-6 h-full overflow-y-auto bg-slate-50">
+      <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+        <BarChart3 className="text-teal-600" /> {profile.name}'s Progress
+      </h2>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 flex items-center gap-6">
+        <GoalRing minutes={minutesOf(today.liveSeconds)} goal={profile.settings.dailyGoalMinutes} />
+        <div className="space-y-3">
+          <div>
+            <p className="font-bold text-slate-800">Today's goal</p>
+            <p className="text-sm text-slate-500">
+              {minutesOf(today.liveSeconds) >= profile.settings.dailyGoalMinutes
+                ? 'Done for today. Well done!'
+                : `Talk with the tutor for ${profile.settings.dailyGoalMinutes} minutes.`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Flame className={streak > 0 ? 'text-orange-500' : 'text-slate-300'} />
+            <div>
+              <p className="font-bold text-slate-800">{streak} day{streak === 1 ? '' : 's'} in a row</p>
+              <p className="text-xs text-slate-500">Best recently: {longestStreak(log)}</p>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      <div className="flex gap-2">
+        {(Object.keys(RANGE_DAYS) as Range[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setRange(option)}
+            className={`px-4 py-2 rounded-full text-sm font-medium border transition-colors ${
+              range === option ? 'bg-teal-600 text-white border-teal-600' : 'bg-white text-slate-600 border-slate-300 hover:border-teal-400'
+            }`}
+          >
+            {option === 'week' ? 'Last 7 days' : 'Last 30 days'}
+          </button>
+        ))}
+      </div>
+
+      <section className="grid grid-cols-3 gap-3">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-white p-3 rounded-2xl shadow-sm border border-slate-200 text-center">
+            <p className="text-2xl font-bold text-slate-800 flex items-center justify-center gap-1">
+              {stat.now} <Change now={stat.now} before={stat.before} />
+            </p>
+            <p className="text-xs text-slate-500">{stat.label}</p>
+          </div>
+        ))}
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-3">
+        <h3 className="font-bold text-slate-800">Talk minutes</h3>
+        <DayBars
+          days={days}
+          range={range}
+          series={[{ label: 'Minutes', color: 'bg-teal-500', values: days.map(d => minutesOf(d.liveSeconds)) }]}
+        />
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-3">
+        <h3 className="font-bold text-slate-800">Checks and questions</h3>
+        <DayBars
+          days={days}
+          range={range}
+          series={[
+            { label: 'Chat questions', color: 'bg-sky-400', values: days.map(d => d.chatQuestions) },
+            { label: 'Grammar checks', color: 'bg-orange-400', values: days.map(d => d.grammarChecks) }
+          ]}
+        />
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-3">
+        <h3 className="font-bold text-slate-800">Most common mistakes</h3>
+        {mistakes.length === 0 ? (
+          <p className="text-sm text-slate-500">No mistakes logged in this period.</p>
+        ) : (
+          <ul className="space-y-2">
+            {mistakes.map(([category, count]) => (
+              <li key={category} className="flex items-center gap-3 text-sm">
+                <span className="w-28 text-slate-700">{CATEGORY_LABELS[category] || category}</span>
+                <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-red-400" style={{ width: `${(count / mistakes[0][1]) * 100}%` }} />
+                </div>
+                <span className="w-6 text-right text-slate-600">{count}</span>
+                <span title={`Previous ${RANGE_DAYS[range]} days: ${previousMistakes[category] ?? 0}`}>
+                  <Change now={count} before={previousMistakes[category] ?? 0} lowerIsBetter />
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="text-xs text-slate-400">Arrows compare with the {RANGE_DAYS[range]} days before.</p>
+      </section>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
@@ -0,0 +1,239 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Volume2, Mic, MicOff, Lightbulb, Check, Layers, Trash2 } from 'lucide-react';
+import { DeckCard, CardSource, TutorSettings } from '../types';
+import { getDueCards, loadDeck, updateCard, removeCard } from '../utils/deck';
+import { scheduleReview, gradeFromAccuracy, ReviewGrade } from '../utils/srs';
+import { speak, transcribe, startRecorder, Recorder } from '../utils/speech';
+import { wordAccuracy } from '../utils/textDiff';
+import { failureMessage } from '../utils/errors';
+
+interface ReviewDeckProps {
+  settings: TutorSettings;
+}
+
+const SOURCE_LABELS: Record<CardSource, string> = {
+  [CardSource.GRAMMAR_CHECK]: 'Grammar check',
+  [CardSource.SMART_CHAT]: 'Chat',
+  [CardSource.LISTEN]: 'Listen',
+  [CardSource.LIVE_SESSION]: 'Conversation',
+  [CardSource.DICTATION]: 'Dictation'
+};
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: ReviewGrade.AGAIN, label: 'Again', className: 'bg-red-100 text-red-700' },
+  { grade: ReviewGrade.HARD, label: 'Hard', className: 'bg-orange-100 text-orange-700' },
+  { grade: ReviewGrade.GOOD, label: 'Good', className: 'bg-teal-100 text-teal-700' },
+  { grade: ReviewGrade.EASY, label: 'Easy', className: 'bg-green-100 text-green-700' }
+];
+
+const ReviewDeck: React.FC<ReviewDeckProps> = ({ settings }) => {
+  const [queue, setQueue] = useState<DeckCard[]>(getDueCards);
+  const [deckSize, setDeckSize] = useState(() => loadDeck().length);
+  const [answer, setAnswer] = useState('');
+  const [showHint, setShowHint] = useState(false);
+  const [accuracy, setAccuracy] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Set on press, so a release that comes before the mic has opened can still close it
+  const recorderRef = useRef<Promise<Recorder | null> | null>(null);
+
+  const card = queue[0];
+
+  const resetCard = () => {
+    setAnswer('');
+    setShowHint(false);
+    setAccuracy(null);
+    setError(null);
+  };
+
+  const handlePlay = async () => {
+    if (!card || isPlaying) return;
+    setIsPlaying(true);
+    setError(null);
+    try {
+      await speak(card.front, settings);
+    } catch (e) {
+      console.error(e);
+      setError(failureMessage(e, settings));
+    } finally {
+      setIsPlaying(false);
+    }
+  };
+
+  const handleCheck = (text = answer) => {
+    if (!card || !text.trim()) return;
+    setAccuracy(wordAccuracy(card.front, text));
+  };
+
+  // Leaving the tab mid-hold must not leave the mic open
+  useEffect(() => () => {
+    recorderRef.current?.then(recorder => recorder?.stop()).catch(() => { /* nothing was recording */ });
+  }, []);
+
+  const startRecording = (e: React.PointerEvent<HTMLButtonElement>) => {
+    // Keep getting the release even when the pointer has slid off the button
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (recorderRef.current) return;
+    setError(null);
+    setIsRecording(true);
+    recorderRef.current = startRecorder().catch(err => {
+      console.error("Mic error", err);
+      setError(failureMessage(err, settings));
+      setIsRecording(false);
+      return null;
+    });
+  };
+
+  const stopRecording = async () => {
+    const starting = recorderRef.current;
+    if (!starting) return;
+    recorderRef.current = null;
+    setIsRecording(false);
+    // A quick tap gets here before the mic is open; wait for it so it gets closed
+    const recorder = await starting;
+    if (!recorder) return;
+    setIsTranscribing(true);
+    try {
+      const spoken = await transcribe(await recorder.stop(), card.front);
+      setAnswer(spoken);
+      handleCheck(spoken);
+    } catch (e) {
+      console.error(e);
+      setError(failureMessage(e, settings));
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!card) return;
+    const reviewed = scheduleReview(card, grade);
+    updateCard(reviewed);
+    // Lapsed cards come back at the end of this session
+    setQueue(prev => (grade < ReviewGrade.HARD ? [...prev.slice(1), reviewed] : prev.slice(1)));
+    resetCard();
+  };
+
+  const handleDelete = () => {
+    if (!card) return;
+    removeCard(card.id);
+    setQueue(prev => prev.slice(1));
+    setDeckSize(loadDeck().length);
+    resetCard();
+  };
+
+  const suggested = accuracy !== null ? gradeFromAccuracy(accuracy) : null;
+
+  return (
+    <div className="p-6 space-y-6 h-full overflow-y-auto bg-slate-50">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+          <Layers className="text-teal-600" /> Review
+        </h2>
+        <span className="text-sm text-slate-500">
+          {queue.length} due · {deckSize} in deck
+        </span>
+      </div>
+
+      {!card ? (
+        <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200 text-center space-y-2">
+          <Check className="mx-auto text-green-500" size={40} />
+          <p className="text-lg font-semibold text-slate-800">All done for now!</p>
+          <p className="text-sm text-slate-500">
+            {deckSize === 0
+              ? 'Phrases from conversations, grammar checks, chat and "Listen to English" will show up here.'
+              : 'Come back later for your next review.'}
+          </p>
+        </div>
+      ) : (
+        <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-4">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] uppercase font-bold bg-slate-100 text-slate-500 px-2 py-0.5 rounded-full">
+              {SOURCE_LABELS[card.source]}
+            </span>
+            <button onClick={handleDelete} className="text-slate-300 hover:text-red-500" title="Remove from deck">
+              <Trash2 size={16} />
+            </button>
+          </div>
+
+          <p className="text-slate-600">Listen, then type or say the phrase.</p>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handlePlay}
+              disabled={isPlaying}
+              className="flex items-center gap-2 bg-teal-600 text-white px-4 py-2 rounded-lg hover:bg-teal-700 disabled:opacity-50"
+            >
+              <Volume2 size={18} /> {isPlaying ? 'Playing...' : 'Listen'}
+            </button>
+            {card.back && (
+              <button
+                onClick={() => setShowHint(true)}
+                className="flex items-center gap-2 bg-slate-100 text-slate-700 px-4 py-2 rounded-lg hover:bg-slate-200"
+              >
+                <Lightbulb size={18} /> Hint
+              </button>
+            )}
+          </div>
+
+          {showHint && <p className="text-sm text-slate-600 bg-yellow-50 border border-yellow-100 p-3 rounded-lg">{card.back}</p>}
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={answer}
+              onChange={(e) => { setAnswer(e.target.value); setAccuracy(null); }}
+              onKeyDown={(e) => e.key === 'Enter' && handleCheck()}
+              placeholder={isTranscribing ? 'Listening to your answer...' : 'Type what you heard'}
+              className="flex-1 p-3 border border-slate-300 rounded-lg"
+              disabled={isTranscribing}
+            />
+            <button
+              onPointerDown={startRecording}
+              onPointerUp={stopRecording}
+              onPointerCancel={stopRecording}
+              onContextMenu={e => e.preventDefault()}
+              className={`p-3 rounded-lg text-white select-none touch-none ${isRecording ? 'bg-red-500' : 'bg-orange-500 hover:bg-orange-600'}`}
+              title="Hold to answer by speaking"
+            >
+              {isRecording ? <MicOff size={20} /> : <Mic size={20} />}
+            </button>
+            <button
+              onClick={() => handleCheck()}
+              disabled={!answer.trim()}
+              className="bg-slate-800 text-white px-4 py-2 rounded-lg hover:bg-slate-900 disabled:opacity-50"
+            >
+              Check
+            </button>
+          </div>
+
+          {error && <p className="p-4 rounded-lg border bg-red-50 border-red-200 text-red-600 text-sm">{error}</p>}
+
+          {accuracy !== null && (
+            <div className="space-y-3">
+              <div className={`p-4 rounded-lg border ${accuracy >= 0.85 ? 'bg-green-50 border-green-200' : 'bg-yellow-50 border-yellow-200'}`}>
+                <p className="text-xs uppercase font-semibold text-slate-500 mb-1">Correct phrase · {Math.round(accuracy * 100)}%</p>
+                <p className="text-lg text-slate-800">{card.front}</p>
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                {GRADE_BUTTONS.map(({ grade, label, className }) => (
+                  <button
+                    key={grade}
+                    onClick={() => handleGrade(grade)}
+                    className={`py-2 rounded-lg text-sm font-semibold ${className} ${suggested === grade ? 'ring-2 ring-offset-1 ring-slate-400' : ''}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default ReviewDeck;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { CheckCircle2, Circle } from 'lucide-react';
+import { Scenario, ScenarioItem } from '../types';
+
+interface ScenarioGoalsProps {
+  scenario: Scenario;
+  completed: Set<string>;
+}
+
+const ItemList: React.FC<{ title: string; items: ScenarioItem[]; completed: Set<string> }> = ({ title, items, completed }) => (
+  <div>
+    <p className="text-[10px] font-bold uppercase text-slate-400 mb-1">{title}</p>
+    <ul className="space-y-1">
+      {items.map(item => (
+        <li key={item.id} className={`flex items-start gap-2 text-sm ${completed.has(item.id) ? 'text-green-700' : 'text-slate-600'}`}>
+          {completed.has(item.id)
+            ? <CheckCircle2 size={16} className="shrink-0 mt-0.5 text-green-600" />
+            : <Circle size={16} className="shrink-0 mt-0.5 text-slate-300" />}
+          <span className={completed.has(item.id) ? 'line-through decoration-green-400' : ''}>{item.text}</span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const ScenarioGoals: React.FC<ScenarioGoalsProps> = ({ scenario, completed }) => {
+  const total = scenario.goals.length + scenario.checklist.length;
+  const done = [...scenario.goals, ...scenario.checklist].filter(item => completed.has(item.id)).length;
+
+  return (
+    <div className="w-full bg-slate-50 rounded-lg p-3 border border-slate-100 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="font-semibold text-slate-800 text-sm">{scenario.emoji} {scenario.title}</p>
+        <span className="text-xs text-slate-500">{done}/{total}</span>
+      </div>
+      <ItemList title="Your goals" items={scenario.goals} completed={completed} />
+      <ItemList title="Checklist" items={scenario.checklist} completed={completed} />
+      <div className="flex flex-wrap gap-1">
+        {scenario.vocabulary.map(word => (
+          <span key={word} className="text-xs bg-white border border-slate-200 text-slate-600 px-2 py-0.5 rounded-full">{word}</span>
+        ))}
+      </div>
+      {done === total && (
+        <p className="text-sm font-semibold text-green-700 text-center">Well done! You completed this scenario.</p>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioGoals;
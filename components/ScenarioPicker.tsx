@@ -0,0 +1,38 @@
+import React from 'react';
+import { MessageCircle } from 'lucide-react';
+import { Scenario } from '../types';
+import { SCENARIOS } from '../data/scenarios';
+
+interface ScenarioPickerProps {
+  selectedId: string | null;
+  onSelect: (scenario: Scenario | null) => void;
+}
+
+const ScenarioPicker: React.FC<ScenarioPickerProps> = ({ selectedId, onSelect }) => {
+  const cardClass = (selected: boolean) =>
+    `text-left p-3 rounded-xl border transition-colors ${
+      selected ? 'border-teal-500 bg-teal-50' : 'border-slate-200 bg-white hover:border-teal-300'
+    }`;
+
+  return (
+    <div className="w-full max-w-md space-y-2">
+      <p className="text-xs font-bold uppercase text-slate-500">Choose a practice</p>
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => onSelect(null)} className={cardClass(selectedId === null)}>
+          <MessageCircle size={20} className="text-teal-600 mb-1" />
+          <p className="font-semibold text-slate-800 text-sm">Free conversation</p>
+          <p className="text-xs text-slate-500">Talk about anything you like.</p>
+        </button>
+        {SCENARIOS.map(scenario => (
+          <button key={scenario.id} onClick={() => onSelect(scenario)} className={cardClass(selectedId === scenario.id)}>
+            <span className="text-xl">{scenario.emoji}</span>
+            <p className="font-semibold text-slate-800 text-sm">{scenario.title}</p>
+            <p className="text-xs text-slate-500">{scenario.description}</p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioPicker;
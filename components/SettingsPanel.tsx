@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { Settings, Volume2, Check, GraduationCap, Gauge, Cpu } from 'lucide-react';
+import { CorrectionStrictness, ExplanationLanguage, LearnerLevel, LearnerProfile, ModelCapability, NativeLanguage, SpeakingPace, TutorSettings } from '../types';
+import { VOICE_OPTIONS } from '../utils/settings';
+import { LANGUAGE_NAMES, LEVEL_DESCRIPTIONS } from '../utils/prompts';
+import { speak } from '../utils/speech';
+import { failureMessage } from '../utils/errors';
+import { isUsingFallback } from '../utils/models';
+
+interface SettingsPanelProps {
+  profile: LearnerProfile;
+  onChange: (profile: LearnerProfile) => void;
+  onStartPlacement: () => void;
+  onShowUsage: () => void;
+  onShowModels: () => void;
+}
+
+const PACE_LABELS: Record<SpeakingPace, string> = {
+  [SpeakingPace.SLOW]: 'Slow',
+  [SpeakingPace.NORMAL]: 'Normal',
+  [SpeakingPace.FAST]: 'Natural'
+};
+
+const STRICTNESS_LABELS: Record<CorrectionStrictness, string> = {
+  [CorrectionStrictness.GENTLE]: 'Gentle',
+  [CorrectionStrictness.BALANCED]: 'Balanced',
+  [CorrectionStrictness.STRICT]: 'Strict'
+};
+
+const GOAL_OPTIONS = ['5', '10', '15', '20', '30'];
+const GOAL_LABELS = Object.fromEntries(GOAL_OPTIONS.map(minutes => [minutes, `${minutes} min`])) as Record<string, string>;
+
+const PREVIEW_TEXT = 'Hello! I am your English tutor. Shall we practise together today?';
+
+// A row of pill buttons for picking one value out of an enum
+const OptionRow = <T extends string>({ options, value, labels, onSelect }: {
+  options: T[];
+  value: T;
+  labels: Record<T, string>;
+  onSelect: (value: T) => void;
+}) => (
+  <div className="flex flex-wrap gap-2">
+    {options.map(option => (
+      <button
+        key={option}
+        onClick={() => onSelect(option)}
+        className={`px-4 py-2 rounded-full text-sm font-medium border transition-colors ${
+          value === option ? 'bg-teal-600 text-white border-teal-600' : 'bg-white text-slate-600 border-slate-300 hover:border-teal-400'
+        }`}
+      >
+        {labels[option]}
+      </button>
+    ))}
+  </div>
+);
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ profile, onChange, onStartPlacement, onShowUsage, onShowModels }) => {
+  const { settings } = profile;
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [name, setName] = useState(profile.name);
+
+  const update = (patch: Partial<TutorSettings>) => onChange({ ...profile, settings: { ...settings, ...patch } });
+
+  const saveName = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== profile.name) onChange({ ...profile, name: trimmed });
+    else setName(profile.name);
+  };
+
+  const handlePreview = async (voiceName: string) => {
+    if (previewing) return;
+    setPreviewing(voiceName);
+    setPreviewError(null);
+    try {
+      await speak(PREVIEW_TEXT, { ...settings, voice: { voiceName } });
+    } catch (e) {
+      console.error(e);
+      setPreviewError(failureMessage(e, settings));
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
+  const levelLabels = Object.fromEntries(
+    Object.values(LearnerLevel).map(level => [level, level])
+  ) as Record<LearnerLevel, string>;
+
+  return (
+    <div className="p-6 space-y-6 h-full overflow-y-auto bg-slate-50">
+      <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+        <Settings className="text-teal-600" /> Tutor Settings
+      </h2>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-3">
+        <h3 className="font-bold text-slate-800">Learner name</h3>
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onBlur={saveName}
+          onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+          className="w-full p-3 border border-slate-300 rounded-lg"
+        />
+        <p className="text-sm text-slate-500">The tutor uses this name when talking to you.</p>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-3">
+        <h3 className="font-bold text-slate-800">Tutor voice</h3>
+        <div className="space-y-2">
+          {VOICE_OPTIONS.map(voice => (
+            <div
+              key={voice.name}
+              className={`flex items-center gap-3 p-3 rounded-xl border cursor-pointer transition-colors ${
+                settings.voice.voiceName === voice.name ? 'border-teal-500 bg-teal-50' : 'border-slate-200 hover:border-teal-300'
+              }`}
+              onClick={() => update({ voice: { voiceName: voice.name } })}
+            >
+              <div className="flex-1">
+                <p className="font-medium text-slate-800">{voice.name}</p>
+                <p className="text-xs text-slate-500">{voice.description}</p>
+              </div>
+              {settings.voice.voiceName === voice.name && <Check size={18} className="text-teal-600" />}
+              <button
+                onClick={(e) => { e.stopPropagation(); handlePreview(voice.name); }}
+                disabled={!!previewing}
+                className="p-2 rounded-full bg-slate-100 text-teal-700 hover:bg-teal-100 disabled:opacity-50"
+                title="Preview"
+              >
+                <Volume2 size={16} className={previewing === voice.name ? 'animate-pulse' : ''} />
+              </button>
+            </div>
+          ))}
+        </div>
+        {previewError && <p className="p-3 rounded-lg border bg-red-50 border-red-200 text-red-600 text-sm">{previewError}</p>}
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-3">
+        <h3 className="font-bold text-slate-800">Your language</h3>
+        <OptionRow
+          options={Object.values(NativeLanguage)}
+          value={settings.nativeLanguage}
+          labels={LANGUAGE_NAMES}
+          onSelect={nativeLanguage => update({ nativeLanguage })}
+        />
+        <h3 className="font-bold text-slate-800 pt-2">Explanations</h3>
+        <OptionRow
+          options={Object.values(ExplanationLanguage)}
+          value={settings.explanationLanguage}
+          labels={{
+            [ExplanationLanguage.NATIVE]: `In ${LANGUAGE_NAMES[settings.nativeLanguage]}`,
+            [ExplanationLanguage.ENGLISH]: 'English only'
+          }}
+          onSelect={explanationLanguage => update({ explanationLanguage })}
+        />
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-3">
+        <h3 className="font-bold text-slate-800">Speaking pace</h3>
+        <OptionRow
+          options={Object.values(SpeakingPace)}
+          value={settings.pace}
+          labels={PACE_LABELS}
+          onSelect={pace => update({ pace })}
+        />
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-3">
+        <h3 className="font-bold text-slate-800">Corrections</h3>
+        <OptionRow
+          options={Object.values(CorrectionStrictness)}
+          value={settings.strictness}
+          labels={STRICTNESS_LABELS}
+          onSelect={strictness => update({ strictness })}
+        />
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-3">
+        <h3 className="font-bold text-slate-800">Level</h3>
+        <OptionRow
+          options={Object.values(LearnerLevel)}
+          value={settings.level}
+          labels={levelLabels}
+          onSelect={level => update({ level })}
+        />
+        <p className="text-sm text-slate-500">For {LEVEL_DESCRIPTIONS[settings.level]}.</p>
+        {profile.placement && (
+          <p className="text-xs text-slate-400">
+            Placement test on {new Date(profile.placement.takenAt).toLocaleDateString()}: {profile.placement.level}
+          </p>
+        )}
+        <button
+          onClick={onStartPlacement}
+          className="flex items-center gap-2 text-sm text-teal-700 hover:text-teal-900 font-medium"
+        >
+          <GraduationCap size={16} />
+          {profile.placement ? 'Take the placement test again' : 'Not sure? Take a placement test'}
+        </button>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-3">
+        <h3 className="font-bold text-slate-800">Daily goal</h3>
+        <OptionRow
+          options={GOAL_OPTIONS}
+          value={String(settings.dailyGoalMinutes)}
+          labels={GOAL_LABELS}
+          onSelect={minutes => update({ dailyGoalMinutes: Number(minutes) })}
+        />
+        <p className="text-sm text-slate-500">Minutes of talking with the tutor each day, shown on the Progress tab.</p>
+      </section>
+
+      <button
+        onClick={onShowUsage}
+        className="w-full flex items-center justify-center gap-2 p-3 rounded-xl border border-slate-300 bg-white text-slate-700 hover:border-teal-400"
+      >
+        <Gauge size={18} /> Usage and limits
+      </button>
+
+      <button
+        onClick={onShowModels}
+        className="w-full flex items-center justify-center gap-2 p-3 rounded-xl border border-slate-300 bg-white text-slate-700 hover:border-teal-400"
+      >
+        <Cpu size={18} /> Model diagnostics
+        {Object.values(ModelCapability).some(isUsingFallback) && (
+          <span className="text-[10px] uppercase font-bold bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full">Fallback in use</span>
+        )}
+      </button>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,251 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Mic, MicOff, Volume2, RotateCcw, TrendingUp } from 'lucide-react';
+import { PhraseScore, TutorSettings } from '../types';
+import { speak, transcribe, startRecorder, Recorder } from '../utils/speech';
+import { alignWords, alignmentScore, tokenize, WordAlignment } from '../utils/textDiff';
+import { getPhraseScore, recordPhraseScore } from '../utils/pronunciation';
+import { failureMessage } from '../utils/errors';
+
+interface ShadowingPracticeProps {
+  settings: TutorSettings;
+}
+
+const SUGGESTED_PHRASES = [
+  'Could you please tell me the way to the station?',
+  'I would like to make an appointment with the doctor.',
+  'The weather is very pleasant this morning.',
+  'My grandson studies in the third standard.'
+];
+
+const WORD_STYLES: Record<WordAlignment['op'], string> = {
+  match: 'bg-green-100 text-green-800',
+  substituted: 'bg-yellow-100 text-yellow-800 cursor-pointer hover:ring-2 ring-yellow-300',
+  missed: 'bg-red-100 text-red-700 line-through cursor-pointer hover:ring-2 ring-red-300',
+  extra: 'bg-slate-100 text-slate-400 italic'
+};
+
+const ShadowingPractice: React.FC<ShadowingPracticeProps> = ({ settings }) => {
+  const [target, setTarget] = useState('');
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [transcript, setTranscript] = useState('');
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [alignment, setAlignment] = useState<WordAlignment[] | null>(null);
+  const [history, setHistory] = useState<PhraseScore | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Per-word retry
+  const [retryWord, setRetryWord] = useState<string | null>(null);
+  const [retryResult, setRetryResult] = useState<'pass' | 'fail' | null>(null);
+
+  // Set on press, so a release that comes before the mic has opened can still close it
+  const recorderRef = useRef<Promise<Recorder | null> | null>(null);
+
+  const hasTarget = tokenize(target).length > 0;
+  const score = alignment ? alignmentScore(alignment) : null;
+
+  const handleTargetChange = (text: string) => {
+    setTarget(text);
+    setAlignment(null);
+    setTranscript('');
+    setRetryWord(null);
+    setHistory(getPhraseScore(text));
+  };
+
+  const playText = async (text: string) => {
+    if (isPlaying || !text.trim()) return;
+    setIsPlaying(true);
+    setError(null);
+    try {
+      await speak(text, settings);
+    } catch (e) {
+      console.error(e);
+      setError(failureMessage(e, settings));
+    } finally {
+      setIsPlaying(false);
+    }
+  };
+
+  // Leaving the tab mid-hold must not leave the mic open
+  useEffect(() => () => {
+    recorderRef.current?.then(recorder => recorder?.stop()).catch(() => { /* nothing was recording */ });
+  }, []);
+
+  const startRecording = (e: React.PointerEvent<HTMLButtonElement>) => {
+    // Keep getting the release even when the pointer has slid off the button
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (recorderRef.current) return;
+    setError(null);
+    setIsRecording(true);
+    recorderRef.current = startRecorder().catch(err => {
+      console.error("Mic error", err);
+      setError(failureMessage(err, settings));
+      setIsRecording(false);
+      return null;
+    });
+  };
+
+  const stopRecording = async () => {
+    const starting = recorderRef.current;
+    if (!starting) return;
+    recorderRef.current = null;
+    setIsRecording(false);
+    // A quick tap gets here before the mic is open; wait for it so it gets closed
+    const recorder = await starting;
+    if (!recorder) return;
+    setIsTranscribing(true);
+    try {
+      const heard = await transcribe(await recorder.stop(), retryWord || target);
+      if (retryWord) {
+        const ok = alignWords(retryWord, heard).some(a => a.op === 'match');
+        setRetryResult(ok ? 'pass' : 'fail');
+        return;
+      }
+      setTranscript(heard || "No speech detected.");
+      if (hasTarget) {
+        const aligned = alignWords(target, heard);
+        setAlignment(aligned);
+        setHistory(recordPhraseScore(target, alignmentScore(aligned)));
+      }
+    } catch (e) {
+      console.error(e);
+      setError(failureMessage(e, settings));
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  const startRetry = (word: string) => {
+    setRetryWord(word);
+    setRetryResult(null);
+    playText(word);
+  };
+
+  const recordButton = (size: number, className: string) => (
+    <button
+      onPointerDown={startRecording}
+      onPointerUp={stopRecording}
+      onPointerCancel={stopRecording}
+      onContextMenu={e => e.preventDefault()}
+      className={`rounded-full flex items-center justify-center transition-all ${
+        isRecording ? 'bg-red-500 scale-110 shadow-red-200' : 'bg-orange-500 hover:bg-orange-600'
+      } text-white shadow-xl cursor-pointer select-none touch-none ${className}`}
+    >
+      {isRecording ? <MicOff size={size} /> : <Mic size={size} />}
+    </button>
+  );
+
+  return (
+    <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+      <h3 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
+        <Mic className="text-orange-600" /> Check Your Pronunciation
+      </h3>
+      <p className="text-sm text-slate-500 mb-3">Pick a sentence, listen, then say it yourself.</p>
+
+      <div className="space-y-3">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={target}
+            onChange={(e) => handleTargetChange(e.target.value)}
+            placeholder="Type a sentence to practise"
+            className="flex-1 p-3 border border-slate-300 rounded-lg"
+          />
+          <button
+            onClick={() => playText(target)}
+            disabled={isPlaying || !hasTarget}
+            className="bg-teal-600 text-white px-3 py-2 rounded-lg hover:bg-teal-700 disabled:opacity-50"
+            title="Hear it"
+          >
+            <Volume2 size={20} />
+          </button>
+        </div>
+        {!hasTarget && (
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTED_PHRASES.map(phrase => (
+              <button
+                key={phrase}
+                onClick={() => handleTargetChange(phrase)}
+                className="text-xs bg-orange-50 text-orange-700 border border-orange-100 px-2 py-1 rounded-full hover:bg-orange-100"
+              >
+                {phrase}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col items-center gap-4 mt-4">
+        {recordButton(32, 'w-20 h-20')}
+        <p className="text-xs text-slate-400">{isTranscribing ? 'Listening...' : retryWord ? `Hold to say "${retryWord}"` : 'Hold to record'}</p>
+
+        {retryWord && (
+          <div className="w-full flex items-center justify-between bg-slate-50 p-3 rounded-lg border border-slate-200 text-sm">
+            <span>
+              Retry: <strong>{retryWord}</strong>
+              {retryResult === 'pass' && <span className="ml-2 text-green-600 font-semibold">Well done!</span>}
+              {retryResult === 'fail' && <span className="ml-2 text-red-600 font-semibold">Try again</span>}
+            </span>
+            <div className="flex gap-2">
+              <button onClick={() => playText(retryWord)} className="text-teal-600 hover:text-teal-800" title="Hear the word">
+                <Volume2 size={18} />
+              </button>
+              <button onClick={() => setRetryWord(null)} className="text-slate-400 hover:text-slate-700 text-xs">
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+
+        {alignment && score !== null && (
+          <div className="w-full bg-slate-50 p-4 rounded-lg border border-slate-200 space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="font-semibold text-slate-600 text-xs uppercase">Your score</p>
+              <p className={`text-2xl font-bold ${score >= 0.85 ? 'text-green-600' : score >= 0.6 ? 'text-yellow-600' : 'text-red-600'}`}>
+                {Math.round(score * 100)}%
+              </p>
+            </div>
+            <p className="flex flex-wrap gap-1 text-lg">
+              {alignment.map((a, i) => (
+                <span
+                  key={i}
+                  onClick={() => a.expected && a.op !== 'match' && startRetry(a.expected)}
+                  title={a.op === 'substituted' ? `I heard "${a.heard}"` : a.op === 'extra' ? 'Extra word' : undefined}
+                  className={`px-1.5 rounded ${WORD_STYLES[a.op]}`}
+                >
+                  {a.expected || a.heard}
+                </span>
+              ))}
+            </p>
+            <p className="text-xs text-slate-500 flex items-center gap-1">
+              <RotateCcw size={12} /> Tap a yellow or red word to practise it on its own.
+            </p>
+          </div>
+        )}
+
+        {error && <p className="w-full p-4 rounded-lg border bg-red-50 border-red-200 text-red-600 text-sm">{error}</p>}
+
+        {transcript && (
+          <div className="w-full bg-slate-50 p-4 rounded-lg border border-slate-200">
+            <p className="font-semibold text-slate-600 text-xs uppercase mb-1">Transcription:</p>
+            <p className="text-lg text-slate-800">"{transcript}"</p>
+          </div>
+        )}
+
+        {history && history.attempts.length > 1 && (
+          <div className="w-full text-sm text-slate-600 flex items-center gap-2 flex-wrap">
+            <TrendingUp size={16} className="text-teal-600" />
+            <span>Your progress on this sentence:</span>
+            {history.attempts.slice(-6).map((a, i) => (
+              <span key={i} className="bg-teal-50 text-teal-700 px-2 py-0.5 rounded-full text-xs font-medium">
+                {Math.round(a.score * 100)}%
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default ShadowingPractice;
@@ -1,20 +1,52 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI, Type } from '@google/genai';
-import { Send, MapPin, Search, Loader2, BrainCircuit } from 'lucide-react';
-import { ChatMessage, Sender } from '../types';
+import { GroundingChunk, GroundingMetadata } from '@google/genai';
+import { Send, MapPin, Search, Loader2, BrainCircuit, BookmarkPlus, BookmarkCheck, Square, RotateCcw, CircleSlash, List, Plus, Download, Navigation, Camera, ImagePlus, X, Volume2 } from 'lucide-react';
+import { CardSource, ChatMessage, ChatThread, InlineImage, LearnerProfile, Sender } from '../types';
+import { ChatRequest, getBackend } from '../utils/backend';
+import { buildChatInstruction, buildChatWelcome } from '../utils/prompts';
+import { addToDeck } from '../utils/deck';
+import { recordActivity } from '../utils/activity';
+import { failureMessage } from '../utils/errors';
+import { createThread, deriveTitle, getThread, listThreads, saveThread } from '../utils/chatStore';
+import { downloadThread } from '../utils/exportThread';
+import { addCitationMarkers, chunkSource, getPlaceSources, getSourceLinks } from '../utils/grounding';
+import { markdownToPlainText, safeHref } from '../utils/markdown';
+import { fileToInlineImage, inlineImageToSrc } from '../utils/image';
+import { speak } from '../utils/speech';
+import ChatThreadList from './ChatThreadList';
+import MarkdownText from './MarkdownText';
 
 interface SmartChatProps {
-  apiKey: string;
+  profile: LearnerProfile;
 }
 
-const SmartChat: React.FC<SmartChatProps> = ({ apiKey }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { id: '1', role: Sender.MODEL, text: 'Namaste! Ask me anything. I can check Google Maps for places or Search for news.', timestamp: Date.now() }
-  ]);
+const WELCOME_ID = '1';
+const DEFAULT_PHOTO_QUESTION = 'What does this say? Please explain it simply.';
+
+const createWelcomeMessages = (profile: LearnerProfile): ChatMessage[] => [
+  { id: WELCOME_ID, role: Sender.MODEL, text: buildChatWelcome(profile), timestamp: Date.now() }
+];
+
+const SmartChat: React.FC<SmartChatProps> = ({ profile }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>(() => createWelcomeMessages(profile));
+  const [thread, setThread] = useState<ChatThread | null>(null);
+  const [showThreads, setShowThreads] = useState(false);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [useThinking, setUseThinking] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null); // Why reading aloud failed
+  const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
+  const [pendingImage, setPendingImage] = useState<InlineImage | null>(null);
+  const [speakingId, setSpeakingId] = useState<string | null>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const galleryInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Mirrors for saving on unmount, when state is no longer reachable
+  const messagesRef = useRef(messages);
+  const threadRef = useRef(thread);
+  messagesRef.current = messages;
+  threadRef.current = thread;
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -22,133 +54,327 @@ const SmartChat: React.FC<SmartChatProps> = ({ apiKey }) => {
 
   useEffect(scrollToBottom, [messages]);
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
+  // Only threads with at least one question are worth keeping, and only when something changed
+  const persist = (current: ChatThread | null, msgs: ChatMessage[]) => {
+    if (!current || msgs === current.messages || !msgs.some(m => m.role === Sender.USER)) return;
+    saveThread({ ...current, messages: msgs }).catch(e => console.error("Could not save chat", e));
+  };
 
-    const userMsg: ChatMessage = {
-      id: Date.now().toString(),
-      role: Sender.USER,
-      text: input,
-      timestamp: Date.now()
-    };
+  const openThread = (next: ChatThread) => {
+    setThread(next);
+    setMessages(next.messages);
+    setSavedIds(new Set());
+  };
 
-    setMessages(prev => [...prev, userMsg]);
-    setInput('');
+  const startNewThread = () => {
+    const msgs = createWelcomeMessages(profile);
+    openThread(createThread(msgs));
+  };
+
+  // Pick up where we left off: reopen the most recent thread
+  useEffect(() => {
+    listThreads()
+      .then(threads => (threads.length > 0 ? openThread(threads[0]) : startNewThread()))
+      .catch(e => {
+        console.error("Could not load chats", e);
+        startNewThread();
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!isLoading) persist(thread, messages);
+  }, [messages, isLoading]);
+
+  // Stop any reply that's still streaming when we leave the tab, and keep what it had so far
+  useEffect(() => () => {
+    if (abortRef.current) {
+      abortRef.current.abort();
+      const msgs = messagesRef.current;
+      const last = msgs[msgs.length - 1];
+      persist(threadRef.current, last ? [...msgs.slice(0, -1), { ...last, isPartial: true }] : msgs);
+    }
+  }, []);
+
+  const updateMessage = (id: string, patch: Partial<ChatMessage>) => {
+    setMessages(prev => prev.map(m => (m.id === id ? { ...m, ...patch } : m)));
+  };
+
+  // Streams a model reply for `history` into the (already inserted) message `replyId`
+  const generateReply = async (history: ChatMessage[], replyId: string, thinking: boolean) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsLoading(true);
+    let text = '';
 
     try {
-      const ai = new GoogleGenAI({ apiKey });
-      
-      // Determine model and config based on toggle
-      let model = 'gemini-2.5-flash';
-      let config: any = {};
-      
-      if (useThinking) {
-        // Complex reasoning requested
-        model = 'gemini-3-pro-preview';
-        config = {
-          thinkingConfig: { thinkingBudget: 32768 }, // Max budget
-        };
-      } else {
-        // General query - enable grounding tools
-        // We let the model decide if it needs them, but we provide them
-        // Note: For now, we will add both search and maps and let the model pick implicitly based on query
-        // Or we can simple use flash for general speed
-        config = {
-             tools: [
-                 { googleSearch: {} },
-                 { googleMaps: {} }
-             ]
-        };
-        
-        // Add location context if possible
-         if (navigator.geolocation) {
-             try {
-                const pos: GeolocationPosition = await new Promise((resolve, reject) => 
-                    navigator.geolocation.getCurrentPosition(resolve, reject, {timeout: 5000})
-                );
-                 config.toolConfig = {
-                    retrievalConfig: {
-                        latLng: {
-                            latitude: pos.coords.latitude,
-                            longitude: pos.coords.longitude
-                        }
-                    }
-                };
-             } catch (e) {
-                 console.warn("Location denied or failed", e);
-             }
-         }
+      // Quick answers may use Maps, so share the location if the learner allows it
+      let location: ChatRequest['location'];
+      if (!thinking && navigator.geolocation) {
+        try {
+          const pos: GeolocationPosition = await new Promise((resolve, reject) =>
+            navigator.geolocation.getCurrentPosition(resolve, reject, { timeout: 5000 })
+          );
+          location = { latitude: pos.coords.latitude, longitude: pos.coords.longitude };
+        } catch (e) {
+          console.warn("Location denied or failed", e);
+        }
       }
 
-      const response = await ai.models.generateContent({
-        model,
-        contents: messages.map(m => ({
-            role: m.role === Sender.USER ? 'user' : 'model',
-            parts: [{ text: m.text }]
-        })),
-        config
+      const stream = getBackend().streamChat({
+        history,
+        systemInstruction: buildChatInstruction(profile),
+        thinking,
+        location,
+        signal: controller.signal
       });
 
-      const text = response.text || "I couldn't generate a text response.";
-      const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
-
-      const modelMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: Sender.MODEL,
-        text,
-        timestamp: Date.now(),
-        isThinking: useThinking,
-        groundingMetadata
-      };
+      let groundingMetadata: GroundingMetadata | undefined;
+      for await (const chunk of stream) {
+        if (controller.signal.aborted) break;
+        text += chunk.text;
+        groundingMetadata = chunk.groundingMetadata || groundingMetadata;
+        updateMessage(replyId, { text, groundingMetadata });
+      }
 
-      setMessages(prev => [...prev, modelMsg]);
+      if (controller.signal.aborted) {
+        updateMessage(replyId, { isPartial: true });
+      } else {
+        updateMessage(replyId, { text: text || "I couldn't generate a text response." });
+      }
 
     } catch (error) {
-      console.error(error);
-      const errorMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: Sender.MODEL,
-        text: "Sorry, something went wrong. Please try again.",
-        timestamp: Date.now()
-      };
-      setMessages(prev => [...prev, errorMsg]);
+      if (controller.signal.aborted || text) {
+        // Stopped by the user or cut off mid-stream: keep what we have
+        if (!controller.signal.aborted) console.error(error);
+        updateMessage(replyId, { isPartial: true });
+      } else {
+        console.error(error);
+        updateMessage(replyId, { text: failureMessage(error, profile.settings) });
+      }
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsLoading(false);
     }
   };
 
-  const renderGroundingSource = (metadata: any) => {
-    if (!metadata?.groundingChunks) return null;
+  const createReplyPlaceholder = (thinking: boolean): ChatMessage => ({
+    id: (Date.now() + 1).toString(),
+    role: Sender.MODEL,
+    text: '',
+    timestamp: Date.now(),
+    isThinking: thinking
+  });
+
+  const handleSend = async () => {
+    if ((!input.trim() && !pendingImage) || isLoading) return;
+
+    const userMsg: ChatMessage = {
+      id: Date.now().toString(),
+      role: Sender.USER,
+      text: input.trim() || DEFAULT_PHOTO_QUESTION,
+      timestamp: Date.now(),
+      ...(pendingImage ? { image: pendingImage } : {})
+    };
+    const history = [...messages, userMsg];
+    const reply = createReplyPlaceholder(useThinking);
+
+    setMessages([...history, reply]);
+    setInput('');
+    setPendingImage(null);
+    recordActivity({ chatQuestions: 1 });
+    await generateReply(history, reply.id, useThinking);
+  };
+
+  const handleImagePicked = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow picking the same file again
+    if (!file) return;
+    try {
+      setPendingImage(await fileToInlineImage(file));
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleReadAloud = async (msg: ChatMessage) => {
+    if (speakingId) return;
+    setSpeakingId(msg.id);
+    setNotice(null);
+    try {
+      await speak(markdownToPlainText(msg.text), profile.settings);
+    } catch (e) {
+      console.error(e);
+      setNotice(failureMessage(e, profile.settings));
+    } finally {
+      setSpeakingId(null);
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  // Re-run a reply with the history that came before it. Anything after it is dropped.
+  const handleRegenerate = async (msg: ChatMessage) => {
+    if (isLoading) return;
+    const index = messages.findIndex(m => m.id === msg.id);
+    if (index < 0) return;
+    const history = messages.slice(0, index);
+    const thinking = !!msg.isThinking;
+    const reply = createReplyPlaceholder(thinking);
+
+    setMessages([...history, reply]);
+    await generateReply(history, reply.id, thinking);
+  };
+
+  // Save the selected phrase (or the whole reply) to the review deck, with the question as the hint
+  const handleSaveToDeck = (msg: ChatMessage) => {
+    const selection = window.getSelection()?.toString().trim();
+    const index = messages.findIndex(m => m.id === msg.id);
+    const question = messages.slice(0, index).reverse().find(m => m.role === Sender.USER)?.text || '';
+    addToDeck(selection || msg.text, question, CardSource.SMART_CHAT);
+    setSavedIds(prev => new Set(prev).add(msg.id));
+  };
+
+  const renderGroundingSource = (metadata: GroundingMetadata) => {
+    const chunks: GroundingChunk[] = metadata.groundingChunks || [];
+    if (chunks.length === 0) return null;
 
-    const searchChunks = metadata.groundingChunks.filter((c: any) => c.web);
-    const mapChunks = metadata.groundingChunks.filter((c: any) => c.maps); // Maps data isn't always in chunks in the same way, but checking for safety
+    const places = getPlaceSources(metadata);
+    const placeIndices = new Set(places.map(place => place.index));
+    // Places get their own cards; the rest keep their position so the numbers match the inline citation markers
+    const searchChunks = chunks.flatMap((chunk, i) => {
+      const source = chunkSource(chunk);
+      const href = !placeIndices.has(i + 1) && source?.uri ? safeHref(source.uri) : null;
+      return href ? [{ index: i + 1, title: source!.title, href }] : [];
+    });
 
-    if (searchChunks.length === 0 && mapChunks.length === 0) return null;
+    if (searchChunks.length === 0 && places.length === 0) return null;
 
     return (
-      <div className="mt-2 text-xs border-t border-slate-200 pt-2">
-        <p className="font-semibold text-slate-500 mb-1">Sources:</p>
-        <div className="flex flex-wrap gap-2">
-            {searchChunks.map((chunk: any, i: number) => (
-            <a 
-                key={i} 
-                href={chunk.web.uri} 
-                target="_blank" 
-                rel="noreferrer"
-                className="flex items-center gap-1 bg-slate-100 hover:bg-slate-200 text-blue-600 px-2 py-1 rounded transition-colors"
-            >
-                <Search size={10} />
-                <span className="truncate max-w-[150px]">{chunk.web.title}</span>
-            </a>
+      <div className="mt-2 text-xs border-t border-slate-200 pt-2 space-y-2">
+        {places.length > 0 && (
+          <div className="space-y-2">
+            <p className="font-semibold text-slate-500">Places:</p>
+            {places.map(place => (
+              <div key={place.index} className="bg-slate-50 border border-slate-200 rounded-xl p-3 flex gap-3">
+                <MapPin size={18} className="text-red-500 shrink-0 mt-0.5" />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="font-semibold text-slate-800 text-sm">
+                    <span className="text-[10px] text-blue-600 bg-blue-50 rounded px-1 mr-1">{place.index}</span>
+                    {place.title}
+                  </p>
+                  {place.description && <p className="text-slate-600">{place.description}</p>}
+                  <div className="flex gap-3">
+                    {place.uri && safeHref(place.uri) && (
+                      <a href={safeHref(place.uri)!} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">
+                        View on Maps
+                      </a>
+                    )}
+                    <a
+                      href={place.directionsUri}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="flex items-center gap-1 text-teal-700 font-semibold hover:underline"
+                    >
+                      <Navigation size={12} /> Directions
+                    </a>
+                  </div>
+                </div>
+              </div>
             ))}
-        </div>
+          </div>
+        )}
+        {searchChunks.length > 0 && (
+          <>
+            <p className="font-semibold text-slate-500 mb-1">Sources:</p>
+            <div className="flex flex-wrap gap-2">
+                {searchChunks.map(chunk => (
+                <a 
+                    key={chunk.index} 
+                    href={chunk.href} 
+                    target="_blank" 
+                    rel="noreferrer"
+                    className="flex items-center gap-1 bg-slate-100 hover:bg-slate-200 text-blue-600 px-2 py-1 rounded transition-colors"
+                >
+                    <span className="font-bold">{chunk.index}</span>
+                    <Search size={10} />
+                    <span className="truncate max-w-[150px]">{chunk.title}</span>
+                </a>
+                ))}
+            </div>
+          </>
+        )}
       </div>
     );
   };
 
+  const handleCloseThreads = async () => {
+    setShowThreads(false);
+    // The thread may have been renamed or deleted from the list
+    const fresh = thread && (await getThread(thread.id).catch(() => undefined));
+    if (fresh) setThread(fresh);
+  };
+
+  // The reply being streamed is always the last message
+  const streamingId = isLoading ? messages[messages.length - 1]?.id : null;
+
+  if (showThreads) {
+    return (
+      <ChatThreadList
+        activeThreadId={thread?.id ?? null}
+        onOpen={(t) => { openThread(t); setShowThreads(false); }}
+        onNew={() => { startNewThread(); setShowThreads(false); }}
+        onDeleted={(id) => { if (id === thread?.id) startNewThread(); }}
+        onClose={handleCloseThreads}
+      />
+    );
+  }
+
+  const hasQuestions = messages.some(m => m.role === Sender.USER);
+  const currentThread = thread && { ...thread, messages, title: deriveTitle({ ...thread, messages }) };
+
   return (
     <div className="flex flex-col h-full bg-slate-50">
+      <div className="flex items-center gap-2 px-4 py-2 bg-white border-b border-slate-200">
+        <button
+          onClick={() => setShowThreads(true)}
+          disabled={isLoading}
+          className="p-1.5 text-slate-500 hover:text-teal-700 disabled:opacity-50"
+          title="My chats"
+        >
+          <List size={20} />
+        </button>
+        <p className="flex-1 text-sm font-medium text-slate-700 truncate">
+          {currentThread?.title ?? 'New chat'}
+        </p>
+        {hasQuestions && currentThread && (
+          <>
+            <button
+              onClick={() => downloadThread(currentThread, 'md')}
+              className="flex items-center gap-1 text-xs text-slate-500 hover:text-teal-700"
+              title="Export as Markdown"
+            >
+              <Download size={14} /> .md
+            </button>
+            <button
+              onClick={() => downloadThread(currentThread, 'json')}
+              className="flex items-center gap-1 text-xs text-slate-500 hover:text-teal-700"
+              title="Export as JSON"
+            >
+              <Download size={14} /> .json
+            </button>
+          </>
+        )}
+        <button
+          onClick={startNewThread}
+          disabled={isLoading}
+          className="p-1.5 text-slate-500 hover:text-teal-700 disabled:opacity-50"
+          title="New chat"
+        >
+          <Plus size={20} />
+        </button>
+      </div>
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.map((msg) => (
           <div
@@ -168,19 +394,73 @@ const SmartChat: React.FC<SmartChatProps> = ({ apiKey }) => {
                       <span>Deep Thought Result</span>
                   </div>
               )}
-              <div className="whitespace-pre-wrap leading-relaxed">{msg.text}</div>
+              {msg.id === streamingId && !msg.text ? (
+                <div className="flex items-center gap-2">
+                    <Loader2 className="animate-spin text-teal-600" size={20} />
+                    <span className="text-slate-500 text-sm">Gemini is thinking...</span>
+                </div>
+              ) : (
+                <div>
+                  {msg.image && (
+                    <img
+                      src={inlineImageToSrc(msg.image)}
+                      alt="Attached photo"
+                      className="rounded-lg mb-2 max-h-60 w-auto"
+                    />
+                  )}
+                  {msg.role === Sender.USER ? (
+                    <div className="whitespace-pre-wrap leading-relaxed">{msg.text}</div>
+                  ) : (
+                    <MarkdownText
+                      text={addCitationMarkers(msg.text, msg.groundingMetadata)}
+                      sources={getSourceLinks(msg.groundingMetadata)}
+                    />
+                  )}
+                  {msg.id === streamingId && <span className="inline-block w-2 h-4 ml-0.5 bg-teal-500 animate-pulse align-middle" />}
+                </div>
+              )}
+              {msg.isPartial && (
+                  <div className="flex items-center gap-1 text-xs text-amber-600 mt-2 font-medium">
+                      <CircleSlash size={12} />
+                      <span>Stopped early - this answer is incomplete</span>
+                  </div>
+              )}
               {msg.groundingMetadata && renderGroundingSource(msg.groundingMetadata)}
+              {msg.role === Sender.MODEL && msg.id !== WELCOME_ID && msg.id !== streamingId && (
+                <div className="mt-2 flex items-center gap-3">
+                  <button
+                    onMouseDown={(e) => e.preventDefault()} // keep the text selection
+                    onClick={() => handleSaveToDeck(msg)}
+                    disabled={savedIds.has(msg.id)}
+                    title="Save to review deck (select a phrase first to save just that)"
+                    className="flex items-center gap-1 text-xs text-slate-400 hover:text-teal-600 disabled:text-teal-600"
+                  >
+                    {savedIds.has(msg.id) ? <BookmarkCheck size={12} /> : <BookmarkPlus size={12} />}
+                    {savedIds.has(msg.id) ? 'Saved to deck' : 'Save to deck'}
+                  </button>
+                  <button
+                    onClick={() => handleReadAloud(msg)}
+                    disabled={!!speakingId || !msg.text.trim()}
+                    title="Read this answer aloud"
+                    className="flex items-center gap-1 text-xs text-slate-400 hover:text-teal-600 disabled:opacity-50"
+                  >
+                    <Volume2 size={12} className={speakingId === msg.id ? 'animate-pulse text-teal-600' : ''} />
+                    {speakingId === msg.id ? 'Reading...' : 'Read aloud'}
+                  </button>
+                  <button
+                    onClick={() => handleRegenerate(msg)}
+                    disabled={isLoading}
+                    title="Ask again with the same question"
+                    className="flex items-center gap-1 text-xs text-slate-400 hover:text-teal-600 disabled:opacity-50"
+                  >
+                    <RotateCcw size={12} />
+                    Regenerate
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         ))}
-        {isLoading && (
-            <div className="flex justify-start">
-                 <div className="bg-white p-4 rounded-2xl rounded-bl-none border border-slate-200 flex items-center gap-2">
-                    <Loader2 className="animate-spin text-teal-600" size={20} />
-                    <span className="text-slate-500 text-sm">Gemini is thinking...</span>
-                 </div>
-            </div>
-        )}
         <div ref={messagesEndRef} />
       </div>
 
@@ -195,23 +475,66 @@ const SmartChat: React.FC<SmartChatProps> = ({ apiKey }) => {
                  </span>
              </label>
          </div>
+        {notice && (
+          <p className="mb-3 text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg p-2">{notice}</p>
+        )}
+        {pendingImage && (
+          <div className="relative inline-block mb-3">
+            <img src={inlineImageToSrc(pendingImage)} alt="Photo to send" className="h-20 rounded-lg border border-slate-200" />
+            <button
+              onClick={() => setPendingImage(null)}
+              className="absolute -top-2 -right-2 bg-slate-700 text-white rounded-full p-0.5"
+              title="Remove photo"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        )}
+        <input ref={cameraInputRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={handleImagePicked} />
+        <input ref={galleryInputRef} type="file" accept="image/*" className="hidden" onChange={handleImagePicked} />
         <div className="flex gap-2">
+          <button
+            onClick={() => cameraInputRef.current?.click()}
+            disabled={isLoading}
+            className="text-slate-500 hover:text-teal-700 px-1 disabled:opacity-50"
+            title="Take a photo"
+          >
+            <Camera size={22} />
+          </button>
+          <button
+            onClick={() => galleryInputRef.current?.click()}
+            disabled={isLoading}
+            className="text-slate-500 hover:text-teal-700 px-1 disabled:opacity-50"
+            title="Attach a photo"
+          >
+            <ImagePlus size={22} />
+          </button>
           <input
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-            placeholder={useThinking ? "Ask a complex grammar question..." : "Ask about news, places, or general topics..."}
-            className="flex-1 p-3 border border-slate-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 transition-all"
-            disabled={isLoading}
+            placeholder={pendingImage ? "Ask about this photo..." : useThinking ? "Ask a complex grammar question..." : "Ask about news, places, or general topics..."}
+            className="flex-1 min-w-0 p-3 border border-slate-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 transition-all"
+            disabled={isLoading || !thread}
           />
-          <button
-            onClick={handleSend}
-            disabled={isLoading || !input.trim()}
-            className="bg-teal-600 text-white p-3 rounded-xl hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            <Send size={24} />
-          </button>
+          {isLoading ? (
+            <button
+              onClick={handleStop}
+              title="Stop"
+              className="bg-slate-700 text-white p-3 rounded-xl hover:bg-slate-800 transition-colors"
+            >
+              <Square size={24} />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!input.trim() && !pendingImage}
+              className="bg-teal-600 text-white p-3 rounded-xl hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Send size={24} />
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Clock, Trash2, Headphones, NotebookText } from 'lucide-react';
+import { CallRecording, LiveTranscript, TutorSettings } from '../types';
+import { loadTranscripts, deleteTranscript } from '../utils/transcripts';
+import { deleteRecording, getRecording } from '../utils/recordings';
+import TranscriptView from './TranscriptView';
+import CallPlayer from './CallPlayer';
+import LessonSummaryCard from './LessonSummaryCard';
+import { getScenario } from '../data/scenarios';
+
+interface TranscriptHistoryProps {
+  settings: TutorSettings;
+  onClose: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 1 ? 'under a minute' : `${minutes} min`;
+};
+
+const TranscriptHistory: React.FC<TranscriptHistoryProps> = ({ settings, onClose }) => {
+  const [transcripts, setTranscripts] = useState<LiveTranscript[]>(loadTranscripts);
+  const [selected, setSelected] = useState<LiveTranscript | null>(null);
+  const [recording, setRecording] = useState<CallRecording | null>(null);
+
+  useEffect(() => {
+    setRecording(null);
+    if (!selected?.hasRecording) return;
+    let cancelled = false;
+    getRecording(selected.id)
+      .then(found => { if (!cancelled) setRecording(found ?? null); })
+      .catch(e => console.warn('Could not load the call recording', e));
+    return () => { cancelled = true; };
+  }, [selected]);
+
+  const handleDelete = (id: string) => {
+    deleteTranscript(id);
+    deleteRecording(id).catch(() => { /* nothing stored */ });
+    setTranscripts(loadTranscripts());
+    if (selected?.id === id) setSelected(null);
+  };
+
+  if (selected) {
+    const scenario = getScenario(selected.scenarioId);
+    return (
+      <div className="flex flex-col h-full bg-slate-50">
+        <div className="flex items-center gap-2 p-4 bg-white border-b border-slate-200">
+          <button onClick={() => setSelected(null)} className="p-1 text-slate-500 hover:text-slate-800">
+            <ArrowLeft size={20} />
+          </button>
+          <div className="flex-1">
+            <p className="font-semibold text-slate-800">{new Date(selected.startedAt).toLocaleString()}</p>
+            <p className="text-xs text-slate-500">
+              {formatDuration(selected.endedAt - selected.startedAt)}
+              {scenario && ` · ${scenario.title}`}
+            </p>
+          </div>
+          <button onClick={() => handleDelete(selected.id)} className="p-1 text-slate-400 hover:text-red-500">
+            <Trash2 size={18} />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {selected.summary && <LessonSummaryCard summary={selected.summary} settings={settings} />}
+          {recording && <CallPlayer recording={recording} />}
+          <TranscriptView messages={selected.messages} emptyText="Nothing was said in this session." />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full bg-slate-50">
+      <div className="flex items-center gap-2 p-4 bg-white border-b border-slate-200">
+        <button onClick={onClose} className="p-1 text-slate-500 hover:text-slate-800">
+          <ArrowLeft size={20} />
+        </button>
+        <h2 className="font-bold text-slate-800">Past Conversations</h2>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {transcripts.length === 0 && (
+          <p className="text-sm text-slate-400 text-center py-8">No saved conversations yet.</p>
+        )}
+        {transcripts.map(t => {
+          const scenario = getScenario(t.scenarioId);
+          return (
+            <button
+              key={t.id}
+              onClick={() => setSelected(t)}
+              className="w-full text-left bg-white p-4 rounded-xl border border-slate-200 hover:border-teal-300 transition-colors"
+            >
+              <div className="flex items-center justify-between">
+                <p className="font-medium text-slate-800">{new Date(t.startedAt).toLocaleString()}</p>
+                <span className="text-xs text-slate-400 flex items-center gap-1">
+                  {t.summary && <NotebookText size={12} className="text-teal-600" />}
+                  {t.hasRecording && <Headphones size={12} className="text-teal-600" />}
+                  <Clock size={12} /> {formatDuration(t.endedAt - t.startedAt)}
+                </span>
+              </div>
+              {scenario && (
+                <p className="text-xs text-teal-700 mt-1">{scenario.emoji} {scenario.title}</p>
+              )}
+              <p className="text-sm text-slate-500 truncate mt-1">
+                {t.messages[0]?.text || 'Nothing was said in this session.'}
+              </p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptHistory;
@@ -0,0 +1,44 @@
+import React, { useEffect, useRef } from 'react';
+import { ChatMessage, Sender } from '../types';
+
+interface TranscriptViewProps {
+  messages: ChatMessage[];
+  autoScroll?: boolean;
+  emptyText?: string;
+}
+
+const TranscriptView: React.FC<TranscriptViewProps> = ({ messages, autoScroll = false, emptyText = 'Start speaking...' }) => {
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (autoScroll) endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, autoScroll]);
+
+  if (messages.length === 0) {
+    return <p className="text-sm text-slate-400 text-center italic py-4">{emptyText}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {messages.map(msg => (
+        <div key={msg.id} className={`flex ${msg.role === Sender.USER ? 'justify-end' : 'justify-start'}`}>
+          <div
+            className={`max-w-[85%] px-3 py-2 rounded-xl text-sm leading-relaxed ${
+              msg.role === Sender.USER
+                ? 'bg-orange-50 text-orange-900 border border-orange-100 rounded-br-none'
+                : 'bg-teal-50 text-teal-900 border border-teal-100 rounded-bl-none'
+            }`}
+          >
+            <p className="text-[10px] font-bold uppercase opacity-60 mb-0.5">
+              {msg.role === Sender.USER ? 'You' : 'Tutor'}
+            </p>
+            {msg.text}
+          </div>
+        </div>
+      ))}
+      <div ref={endRef} />
+    </div>
+  );
+};
+
+export default TranscriptView;
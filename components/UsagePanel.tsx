@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Gauge, Trash2 } from 'lucide-react';
+import { UsageBudget, UsageFeature } from '../types';
+import {
+  FEATURE_LABELS, UsageSummary, UsageTotals, clearUsage, getBudgetStatus, loadBudget, onUsageChange, recentUsage, saveBudget,
+  usageThisMonth, usageToday
+} from '../utils/usage';
+
+interface UsagePanelProps {
+  onClose: () => void;
+}
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const CapBar: React.FC<{ label: string; used: number; cap: number | null; warnAtPercent: number }> = ({ label, used, cap, warnAtPercent }) => {
+  const percent = cap ? Math.min(100, (used / cap) * 100) : 0;
+  const color = percent >= 100 ? 'bg-red-500' : percent >= warnAtPercent ? 'bg-amber-400' : 'bg-teal-500';
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium text-slate-700">{label}</span>
+        <span className="text-slate-500">{formatTokens(used)}{cap ? ` of ${formatTokens(cap)}` : ' (no cap)'}</span>
+      </div>
+      {cap !== null && (
+        <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+          <div className={`h-full ${color}`} style={{ width: `${percent}%` }} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SummaryTable: React.FC<{ title: string; summary: UsageSummary }> = ({ title, summary }) => (
+  <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-3">
+    <h3 className="font-bold text-slate-800">{title}</h3>
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-slate-400 uppercase">
+          <th className="font-medium pb-1">Feature</th>
+          <th className="font-medium pb-1 text-right">Calls</th>
+          <th className="font-medium pb-1 text-right">Tokens</th>
+        </tr>
+      </thead>
+      <tbody>
+        {Object.values(UsageFeature).map(feature => {
+          const totals = summary.byFeature[feature];
+          return (
+            <tr key={feature} className="border-t border-slate-100">
+              <td className="py-1 text-slate-700">{FEATURE_LABELS[feature]}</td>
+              <td className="py-1 text-right text-slate-600">{totals?.calls ?? 0}</td>
+              <td className="py-1 text-right text-slate-600">{formatTokens(totals?.totalTokens ?? 0)}</td>
+            </tr>
+          );
+        })}
+        <tr className="border-t border-slate-200 font-semibold">
+          <td className="py-1 text-slate-800">Total</td>
+          <td className="py-1 text-right text-slate-800">{summary.total.calls}</td>
+          <td className="py-1 text-right text-slate-800">{formatTokens(summary.total.totalTokens)}</td>
+        </tr>
+      </tbody>
+    </table>
+    {Object.keys(summary.byModel).length > 0 && (
+      <p className="text-xs text-slate-400">
+        {(Object.entries(summary.byModel) as [string, UsageTotals][]).map(([model, totals]) => `${model}: ${formatTokens(totals.totalTokens)}`).join(' · ')}
+      </p>
+    )}
+  </section>
+);
+
+// A cap field: empty means no cap
+const CapInput: React.FC<{ label: string; value: number | null; onChange: (value: number | null) => void }> = ({ label, value, onChange }) => (
+  <label className="flex items-center justify-between gap-3 text-sm">
+    <span className="text-slate-700">{label}</span>
+    <input
+      type="number"
+      min={0}
+      step={10000}
+      value={value ?? ''}
+      placeholder="No cap"
+      onChange={e => onChange(e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+      className="w-36 p-2 border border-slate-300 rounded-lg text-right"
+    />
+  </label>
+);
+
+// Token spend by feature, and the caps that pause Thinking Mode and Live calls
+const UsagePanel: React.FC<UsagePanelProps> = ({ onClose }) => {
+  const [, setVersion] = useState(0);
+  const [budget, setBudget] = useState<UsageBudget>(loadBudget);
+
+  useEffect(() => onUsageChange(() => setVersion(v => v + 1)), []);
+
+  const updateBudget = (patch: Partial<UsageBudget>) => {
+    const next = { ...budget, ...patch };
+    setBudget(next);
+    saveBudget(next);
+  };
+
+  const handleClear = () => {
+    if (window.confirm('Reset all usage counts? Budgets start again from zero.')) clearUsage();
+  };
+
+  const status = getBudgetStatus();
+  const recent = recentUsage().slice(0, 10);
+
+  return (
+    <div className="p-6 space-y-6 h-full overflow-y-auto bg-slate-50">
+      <div className="flex items-center gap-2">
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700" title="Back to settings">
+          <ArrowLeft size={20} />
+        </button>
+        <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <Gauge className="text-teal-600" /> Usage and limits
+        </h2>
+      </div>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-4">
+        <CapBar label="Today" used={status.today} cap={budget.dailyTokens} warnAtPercent={budget.warnAtPercent} />
+        <CapBar label="This month" used={status.month} cap={budget.monthlyTokens} warnAtPercent={budget.warnAtPercent} />
+        {status.level === 'exceeded' && (
+          <p className="text-sm text-red-600">The budget is used up. Live calls and Thinking Mode are paused; everything else still works.</p>
+        )}
+      </section>
+
+      <SummaryTable title="Today" summary={usageToday()} />
+      <SummaryTable title="This month" summary={usageThisMonth()} />
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-3">
+        <h3 className="font-bold text-slate-800">Budget</h3>
+        <CapInput label="Daily token cap" value={budget.dailyTokens} onChange={dailyTokens => updateBudget({ dailyTokens })} />
+        <CapInput label="Monthly token cap" value={budget.monthlyTokens} onChange={monthlyTokens => updateBudget({ monthlyTokens })} />
+        <label className="flex items-center justify-between gap-3 text-sm">
+          <span className="text-slate-700">Warn at</span>
+          <select
+            value={budget.warnAtPercent}
+            onChange={e => updateBudget({ warnAtPercent: Number(e.target.value) })}
+            className="w-36 p-2 border border-slate-300 rounded-lg bg-white"
+          >
+            {[50, 70, 80, 90].map(percent => <option key={percent} value={percent}>{percent}% used</option>)}
+          </select>
+        </label>
+        <p className="text-xs text-slate-500">
+          Once a cap is reached, Live calls and Thinking Mode stop until the next day or month. Counts are for everyone on this device.
+        </p>
+      </section>
+
+      {recent.length > 0 && (
+        <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-2">
+          <h3 className="font-bold text-slate-800">Recent calls</h3>
+          {recent.map((record, i) => (
+            <div key={`${record.timestamp}-${i}`} className="flex justify-between text-xs text-slate-600">
+              <span>{new Date(record.timestamp).toLocaleTimeString()} · {FEATURE_LABELS[record.feature]}</span>
+              <span className="text-slate-400">{record.model} · {formatTokens(record.totalTokens)}</span>
+            </div>
+          ))}
+        </section>
+      )}
+
+      <button onClick={handleClear} className="flex items-center gap-2 text-sm text-slate-500 hover:text-red-600">
+        <Trash2 size={16} /> Reset usage counts
+      </button>
+    </div>
+  );
+};
+
+export default UsagePanel;
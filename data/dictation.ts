@@ -0,0 +1,57 @@
+import { LearnerLevel } from '../types';
+
+// Sentences for dictation, graded by level: short and concrete at A1, longer with
+// clauses and less common spellings further up. Punctuation is kept simple since it isn't scored.
+
+export const DICTATION_BANK: Record<LearnerLevel, string[]> = {
+  [LearnerLevel.A1]: [
+    'My name is Ravi.',
+    'I live in a small house.',
+    'The tea is very hot.',
+    'She has two sons.',
+    'We eat rice every day.',
+    'The bus is late today.',
+    'Please open the door.',
+    'My friend likes mangoes.'
+  ],
+  [LearnerLevel.A2]: [
+    'I went to the market yesterday morning.',
+    'My daughter works in a big hospital.',
+    'Can you tell me where the station is?',
+    'We are going to visit our uncle on Sunday.',
+    'The shop closes at nine in the evening.',
+    'He was tired because he walked home.',
+    'I would like a cup of coffee, please.',
+    'It rained a lot during the festival.'
+  ],
+  [LearnerLevel.B1]: [
+    'I have been waiting for the doctor since ten o\'clock.',
+    'If the train is delayed, I will call you from the platform.',
+    'My neighbour recommended a good restaurant near the temple.',
+    'We usually celebrate Diwali with our whole family.',
+    'The pharmacist explained how often I should take the tablets.',
+    'I forgot to bring my passbook to the bank.',
+    'She was surprised when her grandson visited without warning.',
+    'Could you please remind me about the meeting tomorrow?'
+  ],
+  [LearnerLevel.B2]: [
+    'Although the weather was terrible, the wedding went ahead as planned.',
+    'The government announced a new scheme for senior citizens last week.',
+    'I would have arrived earlier if the traffic had not been so heavy.',
+    'Her explanation of the procedure was surprisingly straightforward.',
+    'We need to postpone the appointment until the results are available.',
+    'The committee is responsible for maintaining the community garden.',
+    'He apologised for the misunderstanding and offered to pay the difference.',
+    'Several passengers complained about the unexpected cancellation.'
+  ],
+  [LearnerLevel.C1]: [
+    'The consultant emphasised that the medication might cause occasional drowsiness.',
+    'Despite considerable opposition, the proposal was eventually accepted unanimously.',
+    'It is essential that every applicant submits the necessary documentation on time.',
+    'The archaeologists discovered fascinating evidence of an ancient civilisation.',
+    'His conscientious approach to his work earned him widespread admiration.',
+    'Had we known about the restrictions, we would have made alternative arrangements.',
+    'The unprecedented rainfall caused significant disruption to the railway network.',
+    'She acknowledged that the committee\'s recommendations were somewhat ambiguous.'
+  ]
+};
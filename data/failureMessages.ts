@@ -0,0 +1,99 @@
+import { FailureKind, NativeLanguage } from '../types';
+
+// What to tell the learner when something fails, in English and in each native language.
+// Keep them short and say what to do next.
+
+export const FAILURE_MESSAGES_EN: Record<FailureKind, string> = {
+  [FailureKind.RATE_LIMITED]: 'Too many requests right now. Please wait a minute and try again.',
+  [FailureKind.QUOTA_EXHAUSTED]: "Today's limit has been used up. Please try again tomorrow.",
+  [FailureKind.BUDGET_REACHED]: 'The usage budget has been reached. Live calls and Thinking Mode are paused; other practice still works.',
+  [FailureKind.SAFETY_BLOCKED]: "I can't answer that. Please ask in a different way.",
+  [FailureKind.OFFLINE]: 'You are offline. Check your internet connection and try again.',
+  [FailureKind.MIC_DENIED]: 'The microphone is blocked. Allow microphone access in your browser settings, then try again.',
+  [FailureKind.MIC_UNAVAILABLE]: 'No microphone found. Connect a microphone or headset and try again.',
+  [FailureKind.UNSUPPORTED_MODEL]: 'This feature is not available right now. Please tell the person who set up the app.',
+  [FailureKind.NO_AUDIO]: 'No sound came back for that text. Please try a shorter sentence.',
+  [FailureKind.SERVER_ERROR]: 'The AI service is having trouble. Please try again in a few minutes.',
+  [FailureKind.UNKNOWN]: 'Something went wrong. Please try again.'
+};
+
+export const FAILURE_MESSAGES: Record<NativeLanguage, Record<FailureKind, string>> = {
+  [NativeLanguage.HINDI]: {
+    [FailureKind.RATE_LIMITED]: 'अभी बहुत सारे अनुरोध हैं। कृपया एक मिनट रुककर फिर से कोशिश करें।',
+    [FailureKind.QUOTA_EXHAUSTED]: 'आज की सीमा पूरी हो गई है। कृपया कल फिर से कोशिश करें।',
+    [FailureKind.BUDGET_REACHED]: 'उपयोग की सीमा पूरी हो गई है। लाइव कॉल और थिंकिंग मोड रुके हुए हैं; बाकी अभ्यास चलता रहेगा।',
+    [FailureKind.SAFETY_BLOCKED]: 'मैं इसका जवाब नहीं दे सकता। कृपया किसी और तरीके से पूछें।',
+    [FailureKind.OFFLINE]: 'आप ऑफ़लाइन हैं। अपना इंटरनेट कनेक्शन जाँचें और फिर से कोशिश करें।',
+    [FailureKind.MIC_DENIED]: 'माइक्रोफ़ोन बंद है। ब्राउज़र की सेटिंग में माइक्रोफ़ोन की अनुमति दें, फिर से कोशिश करें।',
+    [FailureKind.MIC_UNAVAILABLE]: 'कोई माइक्रोफ़ोन नहीं मिला। माइक्रोफ़ोन या हेडसेट लगाकर फिर से कोशिश करें।',
+    [FailureKind.UNSUPPORTED_MODEL]: 'यह सुविधा अभी उपलब्ध नहीं है। कृपया ऐप सेट करने वाले व्यक्ति को बताएँ।',
+    [FailureKind.NO_AUDIO]: 'इस वाक्य की आवाज़ नहीं बन पाई। कृपया छोटा वाक्य आज़माएँ।',
+    [FailureKind.SERVER_ERROR]: 'AI सेवा में अभी दिक्कत है। कृपया कुछ मिनट बाद फिर से कोशिश करें।',
+    [FailureKind.UNKNOWN]: 'कुछ गड़बड़ हो गई। कृपया फिर से कोशिश करें।'
+  },
+  [NativeLanguage.KANNADA]: {
+    [FailureKind.RATE_LIMITED]: 'ಈಗ ತುಂಬಾ ವಿನಂತಿಗಳಿವೆ. ಒಂದು ನಿಮಿಷ ಕಾಯ್ದು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+    [FailureKind.QUOTA_EXHAUSTED]: 'ಇಂದಿನ ಮಿತಿ ಮುಗಿದಿದೆ. ದಯವಿಟ್ಟು ನಾಳೆ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+    [FailureKind.BUDGET_REACHED]: 'ಬಳಕೆಯ ಮಿತಿ ಮುಗಿದಿದೆ. ಲೈವ್ ಕರೆಗಳು ಮತ್ತು ಥಿಂಕಿಂಗ್ ಮೋಡ್ ನಿಲ್ಲಿಸಲಾಗಿದೆ; ಉಳಿದ ಅಭ್ಯಾಸ ಮುಂದುವರಿಯುತ್ತದೆ.',
+    [FailureKind.SAFETY_BLOCKED]: 'ನಾನು ಇದಕ್ಕೆ ಉತ್ತರಿಸಲು ಸಾಧ್ಯವಿಲ್ಲ. ದಯವಿಟ್ಟು ಬೇರೆ ರೀತಿಯಲ್ಲಿ ಕೇಳಿ.',
+    [FailureKind.OFFLINE]: 'ನೀವು ಆಫ್‌ಲೈನ್‌ನಲ್ಲಿದ್ದೀರಿ. ಇಂಟರ್ನೆಟ್ ಸಂಪರ್ಕವನ್ನು ಪರಿಶೀಲಿಸಿ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+    [FailureKind.MIC_DENIED]: 'ಮೈಕ್ರೋಫೋನ್ ನಿರ್ಬಂಧಿಸಲಾಗಿದೆ. ಬ್ರೌಸರ್ ಸೆಟ್ಟಿಂಗ್‌ಗಳಲ್ಲಿ ಮೈಕ್ರೋಫೋನ್‌ಗೆ ಅನುಮತಿ ನೀಡಿ, ನಂತರ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+    [FailureKind.MIC_UNAVAILABLE]: 'ಮೈಕ್ರೋಫೋನ್ ಕಂಡುಬಂದಿಲ್ಲ. ಮೈಕ್ರೋಫೋನ್ ಅಥವಾ ಹೆಡ್‌ಸೆಟ್ ಸಂಪರ್ಕಿಸಿ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+    [FailureKind.UNSUPPORTED_MODEL]: 'ಈ ಸೌಲಭ್ಯ ಈಗ ಲಭ್ಯವಿಲ್ಲ. ಆ್ಯಪ್ ಹೊಂದಿಸಿದವರಿಗೆ ತಿಳಿಸಿ.',
+    [FailureKind.NO_AUDIO]: 'ಈ ವಾಕ್ಯಕ್ಕೆ ಧ್ವನಿ ಸಿಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಚಿಕ್ಕ ವಾಕ್ಯವನ್ನು ಪ್ರಯತ್ನಿಸಿ.',
+    [FailureKind.SERVER_ERROR]: 'AI ಸೇವೆಯಲ್ಲಿ ಈಗ ತೊಂದರೆ ಇದೆ. ಕೆಲವು ನಿಮಿಷಗಳ ನಂತರ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+    [FailureKind.UNKNOWN]: 'ಏನೋ ತಪ್ಪಾಗಿದೆ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.'
+  },
+  [NativeLanguage.TAMIL]: {
+    [FailureKind.RATE_LIMITED]: 'இப்போது அதிக கோரிக்கைகள் உள்ளன. ஒரு நிமிடம் காத்திருந்து மீண்டும் முயற்சிக்கவும்.',
+    [FailureKind.QUOTA_EXHAUSTED]: 'இன்றைய வரம்பு முடிந்துவிட்டது. நாளை மீண்டும் முயற்சிக்கவும்.',
+    [FailureKind.BUDGET_REACHED]: 'பயன்பாட்டு வரம்பு முடிந்துவிட்டது. நேரலை அழைப்புகளும் திங்கிங் மோடும் நிறுத்தப்பட்டுள்ளன; மற்ற பயிற்சிகள் தொடரும்.',
+    [FailureKind.SAFETY_BLOCKED]: 'இதற்கு என்னால் பதில் சொல்ல முடியாது. வேறு விதமாகக் கேளுங்கள்.',
+    [FailureKind.OFFLINE]: 'நீங்கள் ஆஃப்லைனில் உள்ளீர்கள். இணைய இணைப்பைச் சரிபார்த்து மீண்டும் முயற்சிக்கவும்.',
+    [FailureKind.MIC_DENIED]: 'மைக்ரோஃபோன் தடுக்கப்பட்டுள்ளது. உலாவி அமைப்புகளில் மைக்ரோஃபோனுக்கு அனுமதி கொடுத்து மீண்டும் முயற்சிக்கவும்.',
+    [FailureKind.MIC_UNAVAILABLE]: 'மைக்ரோஃபோன் கிடைக்கவில்லை. மைக்ரோஃபோன் அல்லது ஹெட்செட்டை இணைத்து மீண்டும் முயற்சிக்கவும்.',
+    [FailureKind.UNSUPPORTED_MODEL]: 'இந்த வசதி இப்போது கிடைக்கவில்லை. செயலியை அமைத்தவரிடம் தெரிவிக்கவும்.',
+    [FailureKind.NO_AUDIO]: 'இந்த வாக்கியத்திற்கு ஒலி கிடைக்கவில்லை. சிறிய வாக்கியத்தை முயற்சிக்கவும்.',
+    [FailureKind.SERVER_ERROR]: 'AI சேவையில் இப்போது சிக்கல் உள்ளது. சில நிமிடங்கள் கழித்து மீண்டும் முயற்சிக்கவும்.',
+    [FailureKind.UNKNOWN]: 'ஏதோ தவறு நடந்துவிட்டது. மீண்டும் முயற்சிக்கவும்.'
+  },
+  [NativeLanguage.TELUGU]: {
+    [FailureKind.RATE_LIMITED]: 'ఇప్పుడు చాలా అభ్యర్థనలు ఉన్నాయి. ఒక నిమిషం ఆగి మళ్ళీ ప్రయత్నించండి.',
+    [FailureKind.QUOTA_EXHAUSTED]: 'ఈ రోజు పరిమితి అయిపోయింది. దయచేసి రేపు మళ్ళీ ప్రయత్నించండి.',
+    [FailureKind.BUDGET_REACHED]: 'వినియోగ పరిమితి అయిపోయింది. లైవ్ కాల్స్, థింకింగ్ మోడ్ ఆపబడ్డాయి; మిగతా అభ్యాసం కొనసాగుతుంది.',
+    [FailureKind.SAFETY_BLOCKED]: 'నేను దీనికి సమాధానం ఇవ్వలేను. దయచేసి వేరే విధంగా అడగండి.',
+    [FailureKind.OFFLINE]: 'మీరు ఆఫ్‌లైన్‌లో ఉన్నారు. ఇంటర్నెట్ కనెక్షన్ చూసి మళ్ళీ ప్రయత్నించండి.',
+    [FailureKind.MIC_DENIED]: 'మైక్రోఫోన్ నిరోధించబడింది. బ్రౌజర్ సెట్టింగ్స్‌లో మైక్రోఫోన్‌కు అనుమతి ఇచ్చి మళ్ళీ ప్రయత్నించండి.',
+    [FailureKind.MIC_UNAVAILABLE]: 'మైక్రోఫోన్ కనబడలేదు. మైక్రోఫోన్ లేదా హెడ్‌సెట్ కనెక్ట్ చేసి మళ్ళీ ప్రయత్నించండి.',
+    [FailureKind.UNSUPPORTED_MODEL]: 'ఈ సదుపాయం ఇప్పుడు అందుబాటులో లేదు. యాప్‌ను సెటప్ చేసినవారికి చెప్పండి.',
+    [FailureKind.NO_AUDIO]: 'ఈ వాక్యానికి శబ్దం రాలేదు. దయచేసి చిన్న వాక్యంతో ప్రయత్నించండి.',
+    [FailureKind.SERVER_ERROR]: 'AI సేవలో ఇప్పుడు సమస్య ఉంది. కొన్ని నిమిషాల తర్వాత మళ్ళీ ప్రయత్నించండి.',
+    [FailureKind.UNKNOWN]: 'ఏదో పొరపాటు జరిగింది. దయచేసి మళ్ళీ ప్రయత్నించండి.'
+  },
+  [NativeLanguage.MARATHI]: {
+    [FailureKind.RATE_LIMITED]: 'आत्ता खूप विनंत्या आहेत. कृपया एक मिनिट थांबून पुन्हा प्रयत्न करा.',
+    [FailureKind.QUOTA_EXHAUSTED]: 'आजची मर्यादा संपली आहे. कृपया उद्या पुन्हा प्रयत्न करा.',
+    [FailureKind.BUDGET_REACHED]: 'वापराची मर्यादा संपली आहे. लाइव्ह कॉल आणि थिंकिंग मोड थांबवले आहेत; बाकीचा सराव सुरू राहील.',
+    [FailureKind.SAFETY_BLOCKED]: 'मी याचे उत्तर देऊ शकत नाही. कृपया वेगळ्या प्रकारे विचारा.',
+    [FailureKind.OFFLINE]: 'तुम्ही ऑफलाइन आहात. इंटरनेट कनेक्शन तपासा आणि पुन्हा प्रयत्न करा.',
+    [FailureKind.MIC_DENIED]: 'मायक्रोफोन बंद केलेला आहे. ब्राउझरच्या सेटिंग्जमध्ये मायक्रोफोनला परवानगी द्या आणि पुन्हा प्रयत्न करा.',
+    [FailureKind.MIC_UNAVAILABLE]: 'मायक्रोफोन सापडला नाही. मायक्रोफोन किंवा हेडसेट जोडा आणि पुन्हा प्रयत्न करा.',
+    [FailureKind.UNSUPPORTED_MODEL]: 'ही सुविधा सध्या उपलब्ध नाही. अ‍ॅप सेट करणाऱ्या व्यक्तीला सांगा.',
+    [FailureKind.NO_AUDIO]: 'या वाक्याचा आवाज तयार झाला नाही. कृपया छोटे वाक्य वापरून पहा.',
+    [FailureKind.SERVER_ERROR]: 'AI सेवेत सध्या अडचण आहे. काही मिनिटांनी पुन्हा प्रयत्न करा.',
+    [FailureKind.UNKNOWN]: 'काहीतरी चूक झाली. कृपया पुन्हा प्रयत्न करा.'
+  },
+  [NativeLanguage.BENGALI]: {
+    [FailureKind.RATE_LIMITED]: 'এখন অনেক অনুরোধ আসছে। এক মিনিট অপেক্ষা করে আবার চেষ্টা করুন।',
+    [FailureKind.QUOTA_EXHAUSTED]: 'আজকের সীমা শেষ হয়ে গেছে। অনুগ্রহ করে কাল আবার চেষ্টা করুন।',
+    [FailureKind.BUDGET_REACHED]: 'ব্যবহারের সীমা শেষ হয়ে গেছে। লাইভ কল ও থিংকিং মোড বন্ধ আছে; বাকি অনুশীলন চলবে।',
+    [FailureKind.SAFETY_BLOCKED]: 'আমি এর উত্তর দিতে পারব না। অনুগ্রহ করে অন্যভাবে জিজ্ঞাসা করুন।',
+    [FailureKind.OFFLINE]: 'আপনি অফলাইনে আছেন। ইন্টারনেট সংযোগ দেখে আবার চেষ্টা করুন।',
+    [FailureKind.MIC_DENIED]: 'মাইক্রোফোন বন্ধ করা আছে। ব্রাউজারের সেটিংসে মাইক্রোফোনের অনুমতি দিন, তারপর আবার চেষ্টা করুন।',
+    [FailureKind.MIC_UNAVAILABLE]: 'কোনো মাইক্রোফোন পাওয়া যায়নি। মাইক্রোফোন বা হেডসেট লাগিয়ে আবার চেষ্টা করুন।',
+    [FailureKind.UNSUPPORTED_MODEL]: 'এই সুবিধাটি এখন পাওয়া যাচ্ছে না। যিনি অ্যাপটি সেট করেছেন তাঁকে জানান।',
+    [FailureKind.NO_AUDIO]: 'এই বাক্যের আওয়াজ তৈরি হয়নি। অনুগ্রহ করে ছোট বাক্য দিয়ে চেষ্টা করুন।',
+    [FailureKind.SERVER_ERROR]: 'AI পরিষেবায় এখন সমস্যা হচ্ছে। কয়েক মিনিট পরে আবার চেষ্টা করুন।',
+    [FailureKind.UNKNOWN]: 'কিছু একটা ভুল হয়েছে। অনুগ্রহ করে আবার চেষ্টা করুন।'
+  }
+};
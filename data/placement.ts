@@ -0,0 +1,39 @@
+import { LearnerLevel, PlacementSkill } from '../types';
+
+// Typed items for the placement test: two per level for each skill, easiest first.
+// The spoken part happens in a short Live interview instead.
+
+export interface PlacementItem {
+  id: string;
+  skill: PlacementSkill.GRAMMAR | PlacementSkill.VOCABULARY;
+  level: LearnerLevel;
+  prompt: string;
+  options: string[];
+  answer: number; // index into options
+}
+
+export const PLACEMENT_ITEMS: PlacementItem[] = [
+  // Grammar
+  { id: 'g-a1-1', skill: PlacementSkill.GRAMMAR, level: LearnerLevel.A1, prompt: 'She ___ a teacher.', options: ['am', 'is', 'are'], answer: 1 },
+  { id: 'g-a1-2', skill: PlacementSkill.GRAMMAR, level: LearnerLevel.A1, prompt: 'I ___ two brothers.', options: ['has', 'have', 'having'], answer: 1 },
+  { id: 'g-a2-1', skill: PlacementSkill.GRAMMAR, level: LearnerLevel.A2, prompt: 'Yesterday we ___ to the temple.', options: ['go', 'goes', 'went'], answer: 2 },
+  { id: 'g-a2-2', skill: PlacementSkill.GRAMMAR, level: LearnerLevel.A2, prompt: 'My son is ___ than my daughter.', options: ['taller', 'more tall', 'tallest'], answer: 0 },
+  { id: 'g-b1-1', skill: PlacementSkill.GRAMMAR, level: LearnerLevel.B1, prompt: 'I ___ in this city since 2015.', options: ['live', 'am living', 'have lived'], answer: 2 },
+  { id: 'g-b1-2', skill: PlacementSkill.GRAMMAR, level: LearnerLevel.B1, prompt: 'If it rains tomorrow, we ___ at home.', options: ['stay', 'will stay', 'would stay'], answer: 1 },
+  { id: 'g-b2-1', skill: PlacementSkill.GRAMMAR, level: LearnerLevel.B2, prompt: 'The letter ___ before I arrived.', options: ['had been sent', 'has sent', 'was sending'], answer: 0 },
+  { id: 'g-b2-2', skill: PlacementSkill.GRAMMAR, level: LearnerLevel.B2, prompt: 'If I ___ about the traffic, I would have left earlier.', options: ['knew', 'had known', 'would know'], answer: 1 },
+  { id: 'g-c1-1', skill: PlacementSkill.GRAMMAR, level: LearnerLevel.C1, prompt: 'Not only ___ late, but he also forgot the tickets.', options: ['he was', 'was he', 'he has been'], answer: 1 },
+  { id: 'g-c1-2', skill: PlacementSkill.GRAMMAR, level: LearnerLevel.C1, prompt: 'It is essential that every patient ___ the form.', options: ['signs', 'sign', 'will sign'], answer: 1 },
+
+  // Vocabulary
+  { id: 'v-a1-1', skill: PlacementSkill.VOCABULARY, level: LearnerLevel.A1, prompt: 'Which one is a fruit?', options: ['chair', 'mango', 'shirt'], answer: 1 },
+  { id: 'v-a1-2', skill: PlacementSkill.VOCABULARY, level: LearnerLevel.A1, prompt: 'The opposite of "hot" is ___.', options: ['cold', 'big', 'late'], answer: 0 },
+  { id: 'v-a2-1', skill: PlacementSkill.VOCABULARY, level: LearnerLevel.A2, prompt: 'You buy medicine at a ___.', options: ['bakery', 'pharmacy', 'library'], answer: 1 },
+  { id: 'v-a2-2', skill: PlacementSkill.VOCABULARY, level: LearnerLevel.A2, prompt: 'Please ___ the form with your name.', options: ['fill in', 'put on', 'look at'], answer: 0 },
+  { id: 'v-b1-1', skill: PlacementSkill.VOCABULARY, level: LearnerLevel.B1, prompt: 'The bus was ___, so I was late for work.', options: ['delayed', 'deleted', 'delivered'], answer: 0 },
+  { id: 'v-b1-2', skill: PlacementSkill.VOCABULARY, level: LearnerLevel.B1, prompt: 'Could you ___ me to buy milk on the way home?', options: ['remember', 'remind', 'recall'], answer: 1 },
+  { id: 'v-b2-1', skill: PlacementSkill.VOCABULARY, level: LearnerLevel.B2, prompt: 'The doctor said the side effects are ___ and will pass quickly.', options: ['severe', 'mild', 'fatal'], answer: 1 },
+  { id: 'v-b2-2', skill: PlacementSkill.VOCABULARY, level: LearnerLevel.B2, prompt: 'We need to ___ the meeting until next week.', options: ['put off', 'put up', 'put out'], answer: 0 },
+  { id: 'v-c1-1', skill: PlacementSkill.VOCABULARY, level: LearnerLevel.C1, prompt: 'Her explanation was so ___ that nobody could follow it.', options: ['lucid', 'convoluted', 'concise'], answer: 1 },
+  { id: 'v-c1-2', skill: PlacementSkill.VOCABULARY, level: LearnerLevel.C1, prompt: 'He was ___ about his plans, refusing to give any details.', options: ['evasive', 'candid', 'eloquent'], answer: 0 }
+];
@@ -0,0 +1,82 @@
+import { Scenario } from '../types';
+
+export const SCENARIOS: Scenario[] = [
+  {
+    id: 'doctor',
+    title: 'Visiting the Doctor',
+    emoji: '🩺',
+    description: 'Explain how you feel and understand the advice.',
+    persona: 'Dr. Mehta, a kind general physician at a neighbourhood clinic',
+    setting: 'A short appointment at the clinic. The doctor greets the patient and asks what the problem is.',
+    goals: [
+      { id: 'doctor-symptoms', text: 'Describe your symptoms' },
+      { id: 'doctor-duration', text: 'Say how long you have felt unwell' },
+      { id: 'doctor-medicine', text: 'Ask how and when to take the medicine' }
+    ],
+    vocabulary: ['fever', 'headache', 'since yesterday', 'prescription', 'twice a day', 'after meals'],
+    checklist: [
+      { id: 'doctor-polite', text: 'Greeted the doctor politely' },
+      { id: 'doctor-tense', text: 'Used "I have been feeling..." correctly' },
+      { id: 'doctor-confirm', text: 'Repeated the instructions back to check' }
+    ]
+  },
+  {
+    id: 'bank',
+    title: 'At the Bank',
+    emoji: '🏦',
+    description: 'Deposit money and ask about your passbook.',
+    persona: 'Mr. Rao, a busy but helpful bank teller',
+    setting: 'The customer reaches the counter. The teller asks how he can help.',
+    goals: [
+      { id: 'bank-deposit', text: 'Say you want to deposit money' },
+      { id: 'bank-passbook', text: 'Ask to update your passbook' },
+      { id: 'bank-clarify', text: 'Ask the teller to repeat something you did not understand' }
+    ],
+    vocabulary: ['deposit', 'withdraw', 'account number', 'passbook', 'form', 'signature'],
+    checklist: [
+      { id: 'bank-request', text: 'Used "I would like to..." for a request' },
+      { id: 'bank-numbers', text: 'Said the amount clearly in English' },
+      { id: 'bank-thanks', text: 'Thanked the teller before leaving' }
+    ]
+  },
+  {
+    id: 'restaurant',
+    title: 'Ordering at a Restaurant',
+    emoji: '🍽️',
+    description: 'Order food, ask about the menu and pay the bill.',
+    persona: 'Priya, a cheerful waiter at a family restaurant',
+    setting: 'The customer has just sat down. The waiter brings the menu and asks if they are ready to order.',
+    goals: [
+      { id: 'restaurant-ask', text: 'Ask what a dish contains' },
+      { id: 'restaurant-order', text: 'Order a main dish and a drink' },
+      { id: 'restaurant-bill', text: 'Ask for the bill' }
+    ],
+    vocabulary: ['menu', 'spicy', 'vegetarian', 'I will have...', 'the bill, please', 'takeaway'],
+    checklist: [
+      { id: 'restaurant-could', text: 'Used "Could I have...?"' },
+      { id: 'restaurant-preference', text: 'Explained a preference (less spicy, no onion)' },
+      { id: 'restaurant-articles', text: 'Used "a" and "the" correctly' }
+    ]
+  },
+  {
+    id: 'school',
+    title: "Phoning a Grandchild's School",
+    emoji: '🏫',
+    description: 'Call the school office about your grandchild.',
+    persona: 'Mrs. D\'Souza, the school office receptionist',
+    setting: 'A phone call to the school office. The receptionist answers and asks who is calling.',
+    goals: [
+      { id: 'school-introduce', text: 'Introduce yourself and your grandchild' },
+      { id: 'school-reason', text: 'Explain that your grandchild is absent and why' },
+      { id: 'school-homework', text: 'Ask about the homework to be done' }
+    ],
+    vocabulary: ['absent', 'unwell', 'class teacher', 'homework', 'leave letter', 'pick up'],
+    checklist: [
+      { id: 'school-phone', text: 'Started the call with "Hello, this is..."' },
+      { id: 'school-relationship', text: 'Said "I am his/her grandmother" correctly' },
+      { id: 'school-close', text: 'Ended the call politely' }
+    ]
+  }
+];
+
+export const getScenario = (id?: string): Scenario | undefined => SCENARIOS.find(s => s.id === id);
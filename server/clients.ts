@@ -0,0 +1,53 @@
+// Client ids for per-user limits. The proxy mints them and hands them out in a
+// signed HttpOnly cookie, so a browser can't pick or forge its own id to get a
+// fresh quota. Without PROXY_SECRET the key is random per start, which only
+// invalidates ids that the in-memory limits have forgotten anyway.
+
+import http from 'node:http';
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+
+export const CLIENT_COOKIE = 'lingomate_client';
+const COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+// Read on first use, after proxy.ts has loaded .env.local
+let secret: string | undefined;
+
+const sign = (id: string) => {
+  secret ??= process.env.PROXY_SECRET || randomBytes(32).toString('hex');
+  return createHmac('sha256', secret).update(id).digest('base64url');
+};
+
+export const issueClientId = (): { id: string; cookie: string } => {
+  const id = randomUUID();
+  const value = `${id}.${sign(id)}`;
+  return {
+    id,
+    cookie: `${CLIENT_COOKIE}=${value}; Path=/api; HttpOnly; SameSite=Strict; Max-Age=${COOKIE_MAX_AGE_SECONDS}`,
+  };
+};
+
+// The id from a cookie this proxy signed, or null for a missing or tampered one.
+export const verifiedClientId = (req: http.IncomingMessage): string | null => {
+  const cookies = req.headers.cookie?.split(';') ?? [];
+  for (const cookie of cookies) {
+    const [name, value] = cookie.trim().split('=');
+    if (name !== CLIENT_COOKIE || !value) continue;
+    const [id, signature] = value.split('.');
+    if (!id || !signature) return null;
+    const expected = Buffer.from(sign(id));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual) ? id : null;
+  }
+  return null;
+};
+
+// The address new ids are counted against. Vite's dev proxy connects from
+// loopback and appends the browser's address to X-Forwarded-For; only that last
+// entry is believed, and only when the request comes from this machine.
+export const clientAddress = (req: http.IncomingMessage): string => {
+  const remote = req.socket.remoteAddress || 'unknown';
+  const isLoopback = remote === '127.0.0.1' || remote === '::1' || remote === '::ffff:127.0.0.1';
+  const forwarded = req.headers['x-forwarded-for'];
+  const last = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded)?.split(',').pop()?.trim();
+  return isLoopback && last ? last : remote;
+};
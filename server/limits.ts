@@ -0,0 +1,117 @@
+// Per-user usage limits for the proxy. Counters live in memory, so they reset
+// when the proxy restarts — good enough for a family-sized deployment.
+
+export interface LimitConfig {
+  requestsPerMinute: number;
+  requestsPerDay: number;
+  liveSessions: number;
+  liveMinutesPerDay: number;
+  newClientsPerDay: number;
+}
+
+export interface LimitDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+interface UserUsage {
+  day: string;
+  minuteWindow: number[];
+  requestsToday: number;
+  liveSessions: number;
+  liveMsToday: number;
+}
+
+const todayKey = () => new Date().toISOString().slice(0, 10);
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const loadLimitConfig = (env: NodeJS.ProcessEnv): LimitConfig => ({
+  requestsPerMinute: readNumber(env.PROXY_REQUESTS_PER_MINUTE, 30),
+  requestsPerDay: readNumber(env.PROXY_REQUESTS_PER_DAY, 500),
+  liveSessions: readNumber(env.PROXY_LIVE_SESSIONS, 1),
+  liveMinutesPerDay: readNumber(env.PROXY_LIVE_MINUTES_PER_DAY, 60),
+  newClientsPerDay: readNumber(env.PROXY_NEW_CLIENTS_PER_DAY, 10),
+});
+
+export const createLimiter = (config: LimitConfig) => {
+  const users = new Map<string, UserUsage>();
+  const newClients = new Map<string, { day: string; count: number }>();
+
+  const usageFor = (userId: string): UserUsage => {
+    const day = todayKey();
+    let usage = users.get(userId);
+    if (!usage) {
+      usage = { day, minuteWindow: [], requestsToday: 0, liveSessions: 0, liveMsToday: 0 };
+      users.set(userId, usage);
+    }
+    if (usage.day !== day) {
+      // New day: daily counters start over, open Live sessions carry on.
+      usage.day = day;
+      usage.requestsToday = 0;
+      usage.liveMsToday = 0;
+    }
+    return usage;
+  };
+
+  // Count one REST call (chat, grammar check, TTS, transcription).
+  const takeRequest = (userId: string): LimitDecision => {
+    const usage = usageFor(userId);
+    const now = Date.now();
+    usage.minuteWindow = usage.minuteWindow.filter(t => now - t < 60_000);
+
+    if (usage.minuteWindow.length >= config.requestsPerMinute) {
+      return { allowed: false, reason: 'Too many requests this minute. Please wait a moment and try again.' };
+    }
+    if (usage.requestsToday >= config.requestsPerDay) {
+      return { allowed: false, reason: 'Daily request limit reached. Please come back tomorrow.' };
+    }
+    usage.minuteWindow.push(now);
+    usage.requestsToday += 1;
+    return { allowed: true };
+  };
+
+  const openLiveSession = (userId: string): LimitDecision => {
+    const usage = usageFor(userId);
+    if (usage.liveSessions >= config.liveSessions) {
+      return { allowed: false, reason: 'A conversation is already running. End it before starting another.' };
+    }
+    if (usage.liveMsToday >= config.liveMinutesPerDay * 60_000) {
+      return { allowed: false, reason: 'Daily conversation time used up. Please come back tomorrow.' };
+    }
+    usage.liveSessions += 1;
+    return { allowed: true };
+  };
+
+  // Add elapsed call time; returns false once the daily allowance is spent.
+  const recordLiveTime = (userId: string, ms: number): boolean => {
+    const usage = usageFor(userId);
+    usage.liveMsToday += ms;
+    return usage.liveMsToday < config.liveMinutesPerDay * 60_000;
+  };
+
+  const closeLiveSession = (userId: string) => {
+    const usage = usageFor(userId);
+    usage.liveSessions = Math.max(0, usage.liveSessions - 1);
+  };
+
+  // Count one newly issued client id for an address, so clearing cookies can't
+  // mint fresh quotas without end.
+  const takeNewClient = (address: string): LimitDecision => {
+    const day = todayKey();
+    const entry = newClients.get(address);
+    const count = entry && entry.day === day ? entry.count : 0;
+    if (count >= config.newClientsPerDay) {
+      return { allowed: false, reason: 'Too many new browsers from this network today. Please come back tomorrow.' };
+    }
+    newClients.set(address, { day, count: count + 1 });
+    return { allowed: true };
+  };
+
+  return { takeRequest, openLiveSession, recordLiveTime, closeLiveSession, takeNewClient };
+};
+
+export type Limiter = ReturnType<typeof createLimiter>;
@@ -0,0 +1,292 @@
+// LingoMate API proxy. The only process that knows GEMINI_API_KEY: the browser
+// points @google/genai at /api/gemini and this server adds the key, forwards
+// REST (chat, checks, TTS, transcription) and Live WebSocket traffic, and
+// applies per-user limits to ids the proxy issues itself (server/clients.ts).
+//
+// Run with `npm run proxy`; `npm run dev` forwards /api here.
+
+import http from 'node:http';
+import { Readable } from 'node:stream';
+import type { ReadableStream } from 'node:stream/web';
+import { WebSocket, WebSocketServer, RawData } from 'ws';
+import { createLimiter, LimitDecision, loadLimitConfig } from './limits';
+import { clientAddress, issueClientId, verifiedClientId } from './clients';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local — rely on the real environment.
+}
+
+const API_KEY = process.env.GEMINI_API_KEY || '';
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+// Loopback only unless PROXY_HOST says otherwise: the app reaches the proxy through Vite or a reverse proxy
+const HOST = process.env.PROXY_HOST || '127.0.0.1';
+const UPSTREAM = 'https://generativelanguage.googleapis.com';
+const UPSTREAM_WS = 'wss://generativelanguage.googleapis.com';
+const API_PREFIX = '/api/gemini';
+const MAX_BODY_BYTES = 20 * 1024 * 1024; // Photos and recordings are sent inline
+
+// Only the calls the app makes are forwarded; anything else (listing files,
+// tuning, caching) is refused so the key can't be used for other purposes.
+const REST_PATH = /^\/v1(alpha|beta)?\/models\/[\w.-]+:(generateContent|streamGenerateContent)$/;
+const LIVE_PATH = /^\/ws\/google\.ai\.generativelanguage\.v1(alpha|beta)?\.GenerativeService\.BidiGenerateContent$/;
+
+const limitConfig = loadLimitConfig(process.env);
+const limiter = createLimiter(limitConfig);
+
+interface Identity extends LimitDecision {
+  userId?: string;
+  cookie?: string;
+}
+
+// The id from the proxy's signed cookie, or a new one (with the cookie to set)
+// for a browser that doesn't have one yet.
+const identify = (req: http.IncomingMessage): Identity => {
+  const userId = verifiedClientId(req);
+  if (userId) return { allowed: true, userId };
+  const decision = limiter.takeNewClient(clientAddress(req));
+  if (!decision.allowed) return decision;
+  const issued = issueClientId();
+  return { allowed: true, userId: issued.id, cookie: issued.cookie };
+};
+
+// Errors use the Gemini API shape so the SDK surfaces them like upstream ones.
+const sendError = (res: http.ServerResponse, code: number, status: string, message: string) => {
+  res.writeHead(code, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: { code, status, message } }));
+};
+
+const readBody = (req: http.IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const forwardRest = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+  const path = url.pathname.slice(API_PREFIX.length);
+  if (req.method !== 'POST' || !REST_PATH.test(path)) {
+    sendError(res, 404, 'NOT_FOUND', 'This endpoint is not available through the LingoMate proxy.');
+    return;
+  }
+
+  const identity = identify(req);
+  if (!identity.allowed) {
+    sendError(res, 429, 'RESOURCE_EXHAUSTED', identity.reason!);
+    return;
+  }
+  if (identity.cookie) res.setHeader('Set-Cookie', identity.cookie);
+
+  const decision = limiter.takeRequest(identity.userId!);
+  if (!decision.allowed) {
+    sendError(res, 429, 'RESOURCE_EXHAUSTED', decision.reason!);
+    return;
+  }
+
+  let body: Buffer;
+  try {
+    body = await readBody(req);
+  } catch {
+    sendError(res, 413, 'INVALID_ARGUMENT', 'Request is too large.');
+    return;
+  }
+
+  // Drop whatever key the browser sent; the proxy's own key is the only one used.
+  const params = new URLSearchParams(url.search);
+  params.delete('key');
+  const query = params.toString();
+
+  // Stop the upstream call (and its billing) if the learner presses Stop.
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  try {
+    const upstream = await fetch(`${UPSTREAM}${path}${query ? `?${query}` : ''}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': req.headers['content-type'] || 'application/json',
+        'x-goog-api-key': API_KEY,
+      },
+      body: new Uint8Array(body),
+      signal: controller.signal,
+    });
+
+    res.writeHead(upstream.status, {
+      'Content-Type': upstream.headers.get('content-type') || 'application/json',
+      'Cache-Control': 'no-store',
+    });
+    if (!upstream.body) {
+      res.end();
+      return;
+    }
+    // The DOM and node:stream/web declare the same stream separately
+    Readable.fromWeb(upstream.body as ReadableStream<Uint8Array>).pipe(res);
+  } catch (err) {
+    if (controller.signal.aborted) return;
+    console.error('Upstream request failed', err);
+    if (!res.headersSent) sendError(res, 502, 'UNAVAILABLE', 'Could not reach the Gemini API.');
+    else res.end();
+  }
+};
+
+// WebSocket close codes 1005/1006 are reserved and can't be sent on the wire.
+const relayCloseCode = (code: number) => (code === 1005 || code === 1006 ? 1011 : code);
+// Close reasons are limited to 123 bytes.
+const relayCloseReason = (reason: Buffer) => reason.subarray(0, 123).toString();
+
+const wss = new WebSocketServer({ noServer: true });
+
+// A Live call can be the first request from a browser, so its id cookie rides on the handshake
+const upgradeCookies = new WeakMap<http.IncomingMessage, string>();
+wss.on('headers', (headers, req) => {
+  const cookie = upgradeCookies.get(req);
+  if (cookie) headers.push(`Set-Cookie: ${cookie}`);
+});
+
+// Open Live relays per user, oldest first, each with a function that ends it
+const liveRelays = new Map<string, (() => void)[]>();
+
+const forwardLive = (client: WebSocket, userId: string, path: string) => {
+  const upstream = new WebSocket(`${UPSTREAM_WS}${path}?key=${encodeURIComponent(API_KEY)}`);
+  // The SDK sends its setup message as soon as our side opens; hold it until Gemini is ready.
+  const pending: { data: RawData; isBinary: boolean }[] = [];
+  const startedAt = Date.now();
+  let lastTick = startedAt;
+  let closed = false;
+
+  // Charge elapsed call time every minute so one long call can't exceed the daily allowance.
+  const meter = setInterval(() => {
+    const now = Date.now();
+    const withinAllowance = limiter.recordLiveTime(userId, now - lastTick);
+    lastTick = now;
+    if (!withinAllowance) {
+      client.close(1008, 'Daily conversation time used up.');
+      upstream.close();
+    }
+  }, 60_000);
+
+  const finish = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(meter);
+    limiter.recordLiveTime(userId, Date.now() - lastTick);
+    limiter.closeLiveSession(userId);
+    const remaining = (liveRelays.get(userId) ?? []).filter(relay => relay !== replace);
+    if (remaining.length) liveRelays.set(userId, remaining);
+    else liveRelays.delete(userId);
+  };
+
+  const replace = () => {
+    finish();
+    if (client.readyState === WebSocket.OPEN) client.close(1000, 'Replaced by a newer connection.');
+    if (upstream.readyState === WebSocket.OPEN || upstream.readyState === WebSocket.CONNECTING) upstream.close();
+  };
+  liveRelays.set(userId, [...(liveRelays.get(userId) ?? []), replace]);
+
+  upstream.on('open', () => {
+    for (const message of pending) upstream.send(message.data, { binary: message.isBinary });
+    pending.length = 0;
+  });
+  upstream.on('message', (data, isBinary) => {
+    if (client.readyState === WebSocket.OPEN) client.send(data, { binary: isBinary });
+  });
+  upstream.on('close', (code, reason) => {
+    finish();
+    if (client.readyState === WebSocket.OPEN) client.close(relayCloseCode(code), relayCloseReason(reason));
+  });
+  upstream.on('error', err => {
+    console.error('Live upstream error', err.message);
+    finish();
+    if (client.readyState === WebSocket.OPEN) client.close(1011, 'Could not reach the Gemini Live API.');
+  });
+
+  client.on('message', (data, isBinary) => {
+    if (upstream.readyState === WebSocket.OPEN) upstream.send(data, { binary: isBinary });
+    else if (upstream.readyState === WebSocket.CONNECTING) pending.push({ data, isBinary });
+  });
+  client.on('close', () => {
+    finish();
+    if (upstream.readyState === WebSocket.OPEN || upstream.readyState === WebSocket.CONNECTING) upstream.close();
+  });
+  client.on('error', () => finish());
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (url.pathname === '/api/health') {
+    // Hand out the id cookie at start-up, before the app makes its first real call
+    const identity = identify(req);
+    if (identity.cookie) res.setHeader('Set-Cookie', identity.cookie);
+    res.writeHead(API_KEY ? 200 : 503, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+    res.end(JSON.stringify({ ok: !!API_KEY, configured: !!API_KEY }));
+    return;
+  }
+  if (!url.pathname.startsWith(`${API_PREFIX}/`)) {
+    sendError(res, 404, 'NOT_FOUND', 'Not found.');
+    return;
+  }
+  if (!API_KEY) {
+    sendError(res, 503, 'UNAVAILABLE', 'The LingoMate server has no Gemini API key configured.');
+    return;
+  }
+  forwardRest(req, res, url);
+});
+
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const path = url.pathname.slice(API_PREFIX.length);
+
+  const reject = (status: number, message: string) => {
+    socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  };
+
+  if (!url.pathname.startsWith(`${API_PREFIX}/`) || !LIVE_PATH.test(path)) {
+    reject(404, 'Not Found');
+    return;
+  }
+  if (!API_KEY) {
+    reject(503, 'Service Unavailable');
+    return;
+  }
+
+  // Accept then close with a reason: browsers hide the HTTP status of a refused upgrade.
+  const refuse = (reason: string) => wss.handleUpgrade(req, socket, head, client => client.close(1008, reason));
+
+  const identity = identify(req);
+  if (!identity.allowed) {
+    refuse(identity.reason!);
+    return;
+  }
+  const userId = identity.userId!;
+  if (identity.cookie) upgradeCookies.set(req, identity.cookie);
+
+  // A reconnect (goAway, dropped network) opens the new socket before the old
+  // one has finished closing. The newest connection wins, so end the user's
+  // oldest relays instead of refusing it.
+  const relays = liveRelays.get(userId) ?? [];
+  relays.slice(0, Math.max(0, relays.length - limitConfig.liveSessions + 1)).forEach(end => end());
+
+  const decision = limiter.openLiveSession(userId);
+  if (!decision.allowed) {
+    refuse(decision.reason!);
+    return;
+  }
+  wss.handleUpgrade(req, socket, head, client => forwardLive(client, userId, path));
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`LingoMate proxy listening on http://${HOST}:${PORT}`);
+  if (!API_KEY) console.warn('GEMINI_API_KEY is not set; the app will show a configuration error.');
+});
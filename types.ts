@@ -1,7 +1,13 @@
 export enum AppMode {
   LIVE_CONVERSATION = 'LIVE_CONVERSATION',
   SMART_CHAT = 'SMART_CHAT',
-  PRACTICE_TOOLS = 'PRACTICE_TOOLS'
+  PRACTICE_TOOLS = 'PRACTICE_TOOLS',
+  REVIEW = 'REVIEW',
+  SETTINGS = 'SETTINGS',
+  PROGRESS = 'PROGRESS',
+  PLACEMENT_TEST = 'PLACEMENT_TEST',
+  USAGE = 'USAGE',
+  MODELS = 'MODELS'
 }
 
 export enum Sender {
@@ -9,19 +15,328 @@ export enum Sender {
   MODEL = 'model'
 }
 
+export interface InlineImage {
+  mimeType: string;
+  data: string; // base64, without the data: prefix
+}
+
 export interface ChatMessage {
   id: string;
   role: Sender;
   text: string;
+  image?: InlineImage;
   timestamp: number;
   isThinking?: boolean;
+  isPartial?: boolean; // Generation was stopped or cut off before it finished
   groundingMetadata?: any;
 }
 
+export enum LiveConnectionState {
+  CONNECTING = 'connecting',
+  LIVE = 'live',
+  RECONNECTING = 'reconnecting',
+  CLOSED = 'closed',
+  FAILED = 'failed'
+}
+
+export interface ChatThread {
+  id: string;
+  profileId?: string; // missing on threads from before profiles: they belong to the first profile
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+}
+
+export interface LiveTranscript {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  messages: ChatMessage[];
+  scenarioId?: string;
+  hasRecording?: boolean;
+  summary?: LessonSummary;
+}
+
+// Written from a Live call's transcript after the learner hangs up, for reviewing later
+export interface LessonSummary {
+  topics: string[];
+  mistakes: { original: string; corrected: string; explanation: string }[];
+  newWords: { word: string; meaning: string }[];
+  practiceSentences: string[];
+}
+
+// Mixed learner + tutor audio of a Live call, stored in IndexedDB. id matches the LiveTranscript id.
+export interface CallRecording {
+  id: string;
+  profileId?: string; // missing on recordings from before profiles: they belong to the first profile
+  createdAt: number;
+  durationMs: number;
+  wav: Blob;
+}
+
+export interface ScenarioItem {
+  id: string;
+  text: string;
+}
+
+// A role-play for the Live session. Goals are what the learner should do; the checklist is how we know it went well.
+export interface Scenario {
+  id: string;
+  title: string;
+  emoji: string;
+  description: string;
+  persona: string; // Who the tutor plays
+  setting: string;
+  goals: ScenarioItem[];
+  vocabulary: string[];
+  checklist: ScenarioItem[];
+}
+
+export enum GrammarErrorCategory {
+  TENSE = 'tense',
+  ARTICLE = 'article',
+  PREPOSITION = 'preposition',
+  WORD_ORDER = 'word_order',
+  AGREEMENT = 'agreement',
+  SPELLING = 'spelling',
+  VOCABULARY = 'vocabulary',
+  PUNCTUATION = 'punctuation',
+  OTHER = 'other'
+}
+
+export interface GrammarError {
+  original: string;
+  correction: string;
+  category: GrammarErrorCategory;
+  explanation: string;
+}
+
+export interface GrammarCheckResult {
+  isCorrect: boolean;
+  corrected: string;
+  errors: GrammarError[];
+  explanation: string;
+}
+
+// Why something failed, so the learner gets advice they can act on
+export enum FailureKind {
+  RATE_LIMITED = 'rate_limited',
+  QUOTA_EXHAUSTED = 'quota_exhausted',
+  BUDGET_REACHED = 'budget_reached',
+  SAFETY_BLOCKED = 'safety_blocked',
+  OFFLINE = 'offline',
+  MIC_DENIED = 'mic_denied',
+  MIC_UNAVAILABLE = 'mic_unavailable',
+  UNSUPPORTED_MODEL = 'unsupported_model',
+  NO_AUDIO = 'no_audio',
+  SERVER_ERROR = 'server_error',
+  UNKNOWN = 'unknown'
+}
+
+// The jobs the app needs a model for; each has a preferred model and fallbacks
+export enum ModelCapability {
+  LIVE_AUDIO = 'live_audio',
+  CHAT = 'chat',
+  DEEP_REASONING = 'deep_reasoning',
+  FAST_CHECK = 'fast_check',
+  TRANSCRIPTION = 'transcription',
+  TTS = 'tts'
+}
+
+// A model the API said was missing or retired, so the app moved on to the next one
+export interface ModelFailure {
+  capability: ModelCapability;
+  model: string;
+  reason: string;
+  timestamp: number;
+}
+
+// What a model call was for, for usage tracking and budgets
+export enum UsageFeature {
+  CHAT = 'chat',
+  THINKING = 'thinking',
+  GRAMMAR_CHECK = 'grammar_check',
+  TTS = 'tts',
+  TRANSCRIPTION = 'transcription',
+  LIVE = 'live',
+  DICTATION = 'dictation',
+  LESSON_SUMMARY = 'lesson_summary'
+}
+
+export interface TokenCounts {
+  promptTokens: number;
+  outputTokens: number;
+  thoughtsTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageRecord extends TokenCounts {
+  timestamp: number;
+  feature: UsageFeature;
+  model: string;
+}
+
+// Token caps shared by every learner on this device; null means no cap
+export interface UsageBudget {
+  dailyTokens: number | null;
+  monthlyTokens: number | null;
+  warnAtPercent: number;
+}
+
+// One day of practice for the progress dashboard, keyed by local date (YYYY-MM-DD)
+export interface DailyActivity {
+  liveSeconds: number;
+  grammarChecks: number;
+  chatQuestions: number;
+  mistakes: Partial<Record<GrammarErrorCategory, number>>;
+}
+
+// Logged by the Live tutor through tool calls. sessionId matches the LiveTranscript id.
+export interface MistakeEntry {
+  id: string;
+  original: string;
+  corrected: string;
+  category: GrammarErrorCategory;
+  timestamp: number;
+  sessionId?: string;
+}
+
+export interface VocabEntry {
+  id: string;
+  word: string;
+  meaning: string;
+  language?: NativeLanguage;
+  // Entries saved before profiles had Hindi and Kannada meanings instead
+  meaningHi?: string;
+  meaningKn?: string;
+  timestamp: number;
+  sessionId?: string;
+}
+
+export enum CardSource {
+  GRAMMAR_CHECK = 'grammar_check',
+  SMART_CHAT = 'smart_chat',
+  LISTEN = 'listen',
+  LIVE_SESSION = 'live_session',
+  DICTATION = 'dictation'
+}
+
+// A phrase in the spaced-repetition deck. Scheduling fields follow SM-2.
+export interface DeckCard {
+  id: string;
+  front: string; // The English phrase to practise
+  back: string; // Meaning, correction note or the question it answered
+  source: CardSource;
+  createdAt: number;
+  due: number;
+  interval: number; // days
+  easeFactor: number;
+  repetitions: number;
+  lastReviewed?: number;
+}
+
+export interface PhraseScore {
+  phrase: string;
+  attempts: { score: number; timestamp: number }[];
+}
+
+// One sentence of a dictation session: what was played, what the learner typed, and how close it was
+export interface DictationResult {
+  sentence: string;
+  answer: string;
+  wordScore: number; // 0..1
+  charScore: number; // 0..1
+  misspelled: string[]; // expected words the learner tried but spelled wrong
+  replays: number;
+}
+
+export interface DictationSession {
+  id: string;
+  startedAt: number;
+  level: LearnerLevel;
+  generated: boolean; // sentences written for the learner rather than taken from the bank
+  results: DictationResult[];
+}
+
 export interface VoiceConfig {
   voiceName: string;
 }
 
+// The learner's own language
+export enum NativeLanguage {
+  HINDI = 'hindi',
+  KANNADA = 'kannada',
+  TAMIL = 'tamil',
+  TELUGU = 'telugu',
+  MARATHI = 'marathi',
+  BENGALI = 'bengali'
+}
+
+// Explain in the learner's native language, or keep everything in English
+export enum ExplanationLanguage {
+  NATIVE = 'native',
+  ENGLISH = 'english'
+}
+
+export enum SpeakingPace {
+  SLOW = 'slow',
+  NORMAL = 'normal',
+  FAST = 'fast'
+}
+
+export enum CorrectionStrictness {
+  GENTLE = 'gentle',
+  BALANCED = 'balanced',
+  STRICT = 'strict'
+}
+
+// CEFR-style levels
+export enum LearnerLevel {
+  A1 = 'A1',
+  A2 = 'A2',
+  B1 = 'B1',
+  B2 = 'B2',
+  C1 = 'C1'
+}
+
+export interface TutorSettings {
+  voice: VoiceConfig;
+  nativeLanguage: NativeLanguage;
+  explanationLanguage: ExplanationLanguage;
+  pace: SpeakingPace;
+  strictness: CorrectionStrictness;
+  level: LearnerLevel;
+  dailyGoalMinutes: number;
+}
+
+export enum PlacementSkill {
+  GRAMMAR = 'grammar',
+  VOCABULARY = 'vocabulary',
+  SPEAKING = 'speaking'
+}
+
+export interface SkillResult {
+  level: LearnerLevel;
+  score?: number; // share of typed items answered correctly, 0-1
+  note?: string; // the tutor's comment on spoken answers
+}
+
+export interface PlacementResult {
+  level: LearnerLevel;
+  skills: Partial<Record<PlacementSkill, SkillResult>>;
+  takenAt: number;
+}
+
+// One learner in the family. Their deck, journal, transcripts and chat threads are stored per profile.
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+  settings: TutorSettings;
+  placement?: PlacementResult;
+}
+
 // Audio Utils Types
 export interface AudioContextState {
   inputAudioContext: AudioContext | null;
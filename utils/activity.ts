@@ -0,0 +1,86 @@
+import { DailyActivity, GrammarErrorCategory } from '../types';
+import { loadJSON, profileKey, saveJSON } from './storage';
+
+const STORAGE_KEY = 'lingomate.activity';
+// Enough for the month chart plus the month before it, for trends
+const KEEP_DAYS = 62;
+
+export type ActivityLog = Record<string, DailyActivity>;
+
+// Local calendar day, so "today" matches the learner's clock rather than UTC
+export const dayKey = (date: Date | number = Date.now()) => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Calendar arithmetic rather than 24h steps, so daylight-saving changes never skip a day
+const daysAgo = (days: number) => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() - days);
+};
+
+export const emptyDay = (): DailyActivity => ({ liveSeconds: 0, grammarChecks: 0, chatQuestions: 0, mistakes: {} });
+
+export const loadActivity = (): ActivityLog => loadJSON<ActivityLog>(profileKey(STORAGE_KEY), {});
+
+// Adds to today's totals
+export const recordActivity = (delta: { liveSeconds?: number; grammarChecks?: number; chatQuestions?: number; mistakes?: GrammarErrorCategory[] }) => {
+  const log = loadActivity();
+  const today = dayKey();
+  const day = { ...emptyDay(), ...log[today] };
+  day.liveSeconds += Math.round(delta.liveSeconds ?? 0);
+  day.grammarChecks += delta.grammarChecks ?? 0;
+  day.chatQuestions += delta.chatQuestions ?? 0;
+  day.mistakes = { ...day.mistakes };
+  delta.mistakes?.forEach(reported => {
+    const category = Object.values(GrammarErrorCategory).includes(reported) ? reported : GrammarErrorCategory.OTHER;
+    day.mistakes[category] = (day.mistakes[category] ?? 0) + 1;
+  });
+  log[today] = day;
+
+  const oldest = dayKey(daysAgo(KEEP_DAYS));
+  Object.keys(log).filter(key => key < oldest).forEach(key => delete log[key]);
+  saveJSON(profileKey(STORAGE_KEY), log);
+};
+
+const isPracticeDay = (day?: DailyActivity) =>
+  !!day && (day.liveSeconds > 0 || day.grammarChecks > 0 || day.chatQuestions > 0);
+
+// `days` days up to today (or up to `endsDaysAgo` days back), oldest first, with empty days filled in
+export const activityRange = (log: ActivityLog, days: number, endsDaysAgo = 0) =>
+  Array.from({ length: days }, (_, i) => {
+    const key = dayKey(daysAgo(endsDaysAgo + days - 1 - i));
+    return { key, ...emptyDay(), ...log[key] };
+  });
+
+// Consecutive practice days up to today. A streak still counts if today hasn't been practised yet.
+export const currentStreak = (log: ActivityLog) => {
+  let streak = 0;
+  let offset = isPracticeDay(log[dayKey()]) ? 0 : 1;
+  while (isPracticeDay(log[dayKey(daysAgo(offset))])) {
+    streak++;
+    offset++;
+  }
+  return streak;
+};
+
+export const longestStreak = (log: ActivityLog) => {
+  let longest = 0;
+  let run = 0;
+  activityRange(log, KEEP_DAYS).forEach(day => {
+    run = isPracticeDay(day) ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  });
+  return longest;
+};
+
+// Mistake counts per category over a run of days, most frequent first
+export const mistakeTotals = (days: DailyActivity[]) => {
+  const totals: Partial<Record<GrammarErrorCategory, number>> = {};
+  days.forEach(day => {
+    (Object.entries(day.mistakes) as [GrammarErrorCategory, number][]).forEach(([category, count]) => {
+      totals[category] = (totals[category] ?? 0) + count;
+    });
+  });
+  return (Object.entries(totals) as [GrammarErrorCategory, number][]).sort((a, b) => b[1] - a[1]);
+};
@@ -1,57 +1,232 @@
 import { Blob } from '@google/genai';
 
+// PCM and WAV helpers. Samples are Float32 in [-1, 1] inside the app; on the wire and in
+// files they are little-endian PCM16, read and written through DataView so byte offsets,
+// odd-length chunks and the host's byte order never matter.
+
+// --- Base64 ---
+
+// String.fromCharCode takes this many arguments at a time without overflowing the stack
+const BASE64_CHUNK_BYTES = 0x8000;
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK_BYTES) {
+    parts.push(String.fromCharCode.apply(null, bytes.subarray(i, i + BASE64_CHUNK_BYTES) as unknown as number[]));
+  }
+  return btoa(parts.join(''));
+};
+
+export const base64ToArrayBuffer = (base64: string): Uint8Array => {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// --- PCM16 <-> Float32 ---
+
+// Scaled by 32768 to match the decoders below, so a round trip gives back the same samples
 export const float32ToPCM16 = (float32: Float32Array): Int16Array => {
   const l = float32.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    int16[i] = Math.max(-1, Math.min(1, float32[i])) * 0x7FFF;
+    int16[i] = Math.max(-0x8000, Math.min(0x7FFF, Math.round(float32[i] * 0x8000)));
   }
   return int16;
 };
 
-export const createBlob = (data: Float32Array): Blob => {
-  const int16 = float32ToPCM16(data);
-  const u8 = new Uint8Array(int16.buffer);
-  
-  // Custom base64 encoding for the raw bytes
-  let binary = '';
-  const len = u8.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(u8[i]);
+// Little-endian bytes of PCM16 samples, whatever the host's byte order
+export const pcm16ToBytes = (pcm: Int16Array): Uint8Array => {
+  const bytes = new Uint8Array(pcm.length * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < pcm.length; i++) view.setInt16(i * 2, pcm[i], true);
+  return bytes;
+};
+
+// Reads little-endian PCM16 from any view of a buffer. A trailing odd byte is ignored.
+export const pcm16BytesToFloat32 = (bytes: Uint8Array): Float32Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const samples = new Float32Array(Math.floor(bytes.byteLength / 2));
+  for (let i = 0; i < samples.length; i++) samples[i] = view.getInt16(i * 2, true) / 32768;
+  return samples;
+};
+
+// --- Channels and sample rate ---
+
+export const interleave = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 1) return channels[0];
+  const frames = Math.min(...channels.map(channel => channel.length));
+  const output = new Float32Array(frames * channels.length);
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels.length; c++) output[i * channels.length + c] = channels[c][i];
+  }
+  return output;
+};
+
+export const deinterleave = (samples: Float32Array, numChannels: number): Float32Array[] => {
+  if (numChannels === 1) return [samples];
+  const frames = Math.floor(samples.length / numChannels);
+  return Array.from({ length: numChannels }, (_, c) => {
+    const channel = new Float32Array(frames);
+    for (let i = 0; i < frames; i++) channel[i] = samples[i * numChannels + c];
+    return channel;
+  });
+};
+
+export const downmixToMono = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 1) return channels[0];
+  const frames = Math.min(...channels.map(channel => channel.length));
+  const mono = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (const channel of channels) sum += channel[i];
+    mono[i] = sum / channels.length;
+  }
+  return mono;
+};
+
+// Linear interpolation. Good enough for speech; always returns a new array.
+export const resample = (input: Float32Array, fromRate: number, toRate: number): Float32Array => {
+  if (fromRate === toRate) return input.slice();
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.floor(input.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const pos = i * ratio;
+    const index = Math.floor(pos);
+    const next = Math.min(index + 1, input.length - 1);
+    output[i] = input[index] + (input[next] - input[index]) * (pos - index);
   }
-  const base64 = btoa(binary);
+  return output;
+};
+
+// --- WAV ---
 
-  return {
-    data: base64,
-    mimeType: 'audio/pcm;rate=16000',
+const WAV_HEADER_BYTES = 44;
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xFFFE;
+
+// 16-bit PCM WAV file bytes. Samples of multi-channel audio are interleaved.
+export const encodeWav = (pcm: Int16Array, sampleRate: number, numChannels = 1): ArrayBuffer => {
+  const dataBytes = pcm.length * 2;
+  const buffer = new ArrayBuffer(WAV_HEADER_BYTES + dataBytes);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
   };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, FORMAT_PCM, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true); // byte rate
+  view.setUint16(32, numChannels * 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataBytes, true);
+  new Uint8Array(buffer, WAV_HEADER_BYTES).set(pcm16ToBytes(pcm));
+  return buffer;
+};
+
+export interface DecodedWav {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+const readSample = (view: DataView, offset: number, bitsPerSample: number, isFloat: boolean): number => {
+  if (isFloat) return bitsPerSample === 64 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+  switch (bitsPerSample) {
+    case 8: return (view.getUint8(offset) - 128) / 128; // 8-bit WAV is unsigned
+    case 16: return view.getInt16(offset, true) / 32768;
+    case 24: {
+      const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+      return value / 8388608;
+    }
+    case 32: return view.getInt32(offset, true) / 2147483648;
+    default: throw new Error(`Unsupported WAV sample size: ${bitsPerSample} bits`);
+  }
+};
+
+// Parses a RIFF/WAVE file: integer PCM (8, 16, 24, 32 bit) or float, any number of channels.
+// Chunks other than fmt and data (LIST, fact...) are skipped.
+export const decodeWav = (data: ArrayBuffer | Uint8Array): DecodedWav => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (bytes.byteLength < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') throw new Error('Not a WAV file');
+
+  let format: { audioFormat: number; numChannels: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      let audioFormat = view.getUint16(body, true);
+      // The extensible format keeps the real one in the first two bytes of its sub-format GUID
+      if (audioFormat === FORMAT_EXTENSIBLE && size >= 26) audioFormat = view.getUint16(body + 24, true);
+      format = {
+        audioFormat,
+        numChannels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true)
+      };
+    } else if (id === 'data') {
+      if (!format) throw new Error('WAV data chunk comes before its format');
+      const { audioFormat, numChannels, sampleRate, bitsPerSample } = format;
+      if (audioFormat !== FORMAT_PCM && audioFormat !== FORMAT_FLOAT) throw new Error(`Unsupported WAV format ${audioFormat}`);
+      const bytesPerSample = bitsPerSample / 8;
+      // Streamed WAVs sometimes leave the size at 0 or too large; trust the file length instead
+      const available = Math.min(size || Infinity, bytes.byteLength - body);
+      const frames = Math.floor(available / (bytesPerSample * numChannels));
+      const channels = Array.from({ length: numChannels }, () => new Float32Array(frames));
+      for (let i = 0; i < frames; i++) {
+        for (let c = 0; c < numChannels; c++) {
+          channels[c][i] = readSample(view, body + (i * numChannels + c) * bytesPerSample, bitsPerSample, audioFormat === FORMAT_FLOAT);
+        }
+      }
+      return { sampleRate, channels };
+    }
+    offset = body + size + (size % 2); // chunks are padded to an even length
+  }
+  throw new Error('WAV file has no audio data');
+};
+
+// Mono 16-bit WAV of decoded audio, at `sampleRate` (e.g. 16 kHz for speech recognition)
+export const audioBufferToWav = (audio: AudioBuffer, sampleRate = audio.sampleRate): ArrayBuffer => {
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, c) => audio.getChannelData(c));
+  const mono = resample(downmixToMono(channels), audio.sampleRate, sampleRate);
+  return encodeWav(float32ToPCM16(mono), sampleRate);
 };
 
+// --- Live API ---
+
+// Wraps PCM16 samples for the Live API, labelled with the rate they were actually captured at
+export const pcm16ToBlob = (pcm: Int16Array, sampleRate: number): Blob => ({
+  data: bytesToBase64(pcm16ToBytes(pcm)),
+  mimeType: `audio/pcm;rate=${sampleRate}`,
+});
+
+export const createBlob = (data: Float32Array, sampleRate = 16000): Blob =>
+  pcm16ToBlob(float32ToPCM16(data), sampleRate);
+
+// Raw PCM16 from the Live API or TTS into an AudioBuffer. Multi-channel input is interleaved.
 export const decodeAudioData = async (
   data: Uint8Array,
   ctx: AudioContext,
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> => {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
+  const channels = deinterleave(pcm16BytesToFloat32(data), numChannels);
+  const buffer = ctx.createBuffer(numChannels, Math.max(1, channels[0].length), sampleRate);
+  channels.forEach((samples, channel) => buffer.copyToChannel(samples, channel));
   return buffer;
 };
-
-export const base64ToArrayBuffer = (base64: string): Uint8Array => {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-};
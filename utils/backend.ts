@@ -0,0 +1,110 @@
+import { Blob as MediaBlob, FunctionResponse, GroundingMetadata, LiveServerMessage } from '@google/genai';
+import { ChatMessage, GrammarCheckResult, LearnerProfile, LessonSummary, Scenario, TutorSettings, UsageFeature } from '../types';
+import { ProxyStatus } from './genai';
+import { createGeminiBackend } from './geminiBackend';
+import { createFakeBackend } from './fakeBackend';
+import { assertWithinBudget } from './usage';
+
+// Everything the app asks of an AI provider. Components go through getBackend()
+// instead of calling @google/genai, so the tutor can run against Gemini (via
+// the proxy) or against the scripted offline fake used for demos and UI work.
+
+export type BackendKind = 'gemini' | 'fake';
+
+export interface ChatRequest {
+  history: ChatMessage[];
+  systemInstruction: string;
+  // Slower, deeper reasoning instead of grounded quick answers
+  thinking: boolean;
+  location?: { latitude: number; longitude: number };
+  signal: AbortSignal;
+}
+
+export interface ChatChunk {
+  // Newly generated text only; callers accumulate it
+  text: string;
+  groundingMetadata?: GroundingMetadata;
+}
+
+export interface AudioInput {
+  base64: string;
+  mimeType: string;
+  // What the learner was asked to say, if anything. Gemini ignores it; the fake scripts its answer from it.
+  expected?: string;
+}
+
+export interface LiveRequest {
+  profile: LearnerProfile;
+  scenario: Scenario | null;
+  resumptionHandle: string | null;
+  // The speaking part of the placement test rather than a tutoring call
+  placement?: boolean;
+}
+
+// Same callback shape as the SDK's live.connect, so messages are LiveServerMessage either way
+export interface LiveCallbacks {
+  onopen: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onerror: (error: unknown) => void;
+  // The SDK passes the socket's CloseEvent; code 1008 carries a limit or model error as the reason
+  onclose: (event?: CloseEvent) => void;
+}
+
+export interface LiveSession {
+  sendRealtimeInput: (input: { media: MediaBlob }) => void;
+  sendToolResponse: (response: { functionResponses: FunctionResponse[] }) => void;
+  close: () => void;
+}
+
+export interface TutorBackend {
+  kind: BackendKind;
+  checkAvailability: () => Promise<ProxyStatus>;
+  streamChat: (request: ChatRequest) => AsyncIterable<ChatChunk>;
+  checkGrammar: (profile: LearnerProfile, sentence: string) => Promise<GrammarCheckResult>;
+  transcribe: (audio: AudioInput) => Promise<string>;
+  // Base64 16-bit PCM, mono, 24 kHz — or null if no audio came back. `slow` is for replays
+  // (dictation), well below even the slow speaking pace.
+  synthesizeSpeech: (text: string, settings: TutorSettings, slow?: boolean) => Promise<string | null>;
+  connectLive: (request: LiveRequest, callbacks: LiveCallbacks) => Promise<LiveSession>;
+  // New sentences at the learner's level for the dictation exercise
+  generateDictation: (profile: LearnerProfile, count: number) => Promise<string[]>;
+  // Topics, mistakes, new words and practice sentences from a finished Live call's transcript
+  summarizeLesson: (profile: LearnerProfile, messages: ChatMessage[]) => Promise<LessonSummary>;
+}
+
+const BACKEND_KEY = 'lingomate.backend';
+
+// Chosen by TUTOR_BACKEND at build time, or per browser with ?backend=fake / ?backend=gemini
+// (remembered until changed again).
+export const resolveBackendKind = (): BackendKind => {
+  const requested = new URLSearchParams(window.location.search).get('backend');
+  if (requested === 'fake' || requested === 'gemini') {
+    localStorage.setItem(BACKEND_KEY, requested);
+    return requested;
+  }
+  const saved = localStorage.getItem(BACKEND_KEY);
+  if (saved === 'fake' || saved === 'gemini') return saved;
+  return process.env.TUTOR_BACKEND === 'fake' ? 'fake' : 'gemini';
+};
+
+// Refuses Thinking Mode and Live calls once the token budget is used up, whichever backend runs
+const withBudget = (inner: TutorBackend): TutorBackend => ({
+  ...inner,
+  streamChat: request => {
+    if (request.thinking) assertWithinBudget(UsageFeature.THINKING);
+    return inner.streamChat(request);
+  },
+  connectLive: async (request, callbacks) => {
+    assertWithinBudget(UsageFeature.LIVE);
+    return inner.connectLive(request, callbacks);
+  }
+});
+
+let backend: TutorBackend | null = null;
+
+export const getBackend = (): TutorBackend => {
+  if (!backend) {
+    backend = withBudget(resolveBackendKind() === 'fake' ? createFakeBackend() : createGeminiBackend());
+  }
+  return backend;
+};
@@ -0,0 +1,81 @@
+import { encodeWav, resample } from './audioUtils';
+import { CAPTURE_SAMPLE_RATE } from './captureWorklet';
+
+// Builds one audio timeline for a Live call: the learner's mic (already 16 kHz
+// PCM16 from the capture worklet) plus the tutor's replies at the time they
+// were scheduled to play. Recorded at the mic rate so long calls stay small.
+
+export const RECORDING_SAMPLE_RATE = CAPTURE_SAMPLE_RATE;
+// Anything longer is not recorded, to keep memory in check on phones
+const MAX_RECORDING_SECONDS = 30 * 60;
+
+interface TutorChunk {
+  start: number; // sample offset in the recording
+  samples: Float32Array;
+}
+
+export interface FinishedRecording {
+  wav: Blob;
+  durationMs: number;
+}
+
+// `outputOrigin` is the output AudioContext's currentTime when mic capture started,
+// so tutor audio lines up with the mic samples.
+export const createCallRecorder = (outputOrigin: number) => {
+  const maxSamples = MAX_RECORDING_SECONDS * RECORDING_SAMPLE_RATE;
+  const micChunks: Int16Array[] = [];
+  let micSamples = 0;
+  let tutorChunks: TutorChunk[] = [];
+
+  const addMic = (pcm: Int16Array) => {
+    if (micSamples >= maxSamples) return;
+    micChunks.push(pcm.slice());
+    micSamples += pcm.length;
+  };
+
+  // `startTime` is the output context time the chunk was scheduled to start at
+  const addTutor = (audio: AudioBuffer, startTime: number) => {
+    const start = Math.round((startTime - outputOrigin) * RECORDING_SAMPLE_RATE);
+    if (start < 0 || start >= maxSamples) return;
+    tutorChunks.push({ start, samples: resample(audio.getChannelData(0), audio.sampleRate, RECORDING_SAMPLE_RATE) });
+  };
+
+  // The learner interrupted: drop tutor audio that was queued but never played
+  const cutTutor = (atTime: number) => {
+    const cut = Math.round((atTime - outputOrigin) * RECORDING_SAMPLE_RATE);
+    tutorChunks = tutorChunks
+      .filter(chunk => chunk.start < cut)
+      .map(chunk => chunk.start + chunk.samples.length > cut
+        ? { start: chunk.start, samples: chunk.samples.subarray(0, cut - chunk.start) }
+        : chunk);
+  };
+
+  const finish = (): FinishedRecording | null => {
+    const tutorEnd = tutorChunks.reduce((end, chunk) => Math.max(end, chunk.start + chunk.samples.length), 0);
+    const length = Math.min(maxSamples, Math.max(micSamples, tutorEnd));
+    if (length === 0) return null;
+
+    const mix = new Int16Array(length);
+    let offset = 0;
+    for (const chunk of micChunks) {
+      mix.set(chunk.subarray(0, Math.max(0, length - offset)), offset);
+      offset += chunk.length;
+    }
+    for (const chunk of tutorChunks) {
+      const end = Math.min(length, chunk.start + chunk.samples.length);
+      for (let i = chunk.start; i < end; i++) {
+        const sample = mix[i] + chunk.samples[i - chunk.start] * 0x7FFF;
+        mix[i] = Math.max(-0x8000, Math.min(0x7FFF, sample));
+      }
+    }
+
+    return {
+      wav: new Blob([encodeWav(mix, RECORDING_SAMPLE_RATE)], { type: 'audio/wav' }),
+      durationMs: Math.round((length / RECORDING_SAMPLE_RATE) * 1000)
+    };
+  };
+
+  return { addMic, addTutor, cutTutor, finish };
+};
+
+export type CallRecorder = ReturnType<typeof createCallRecorder>;
@@ -0,0 +1,101 @@
+// Mic capture pipeline. The worklet runs on the audio thread: it resamples whatever rate the
+// device gives us down to the rate Gemini expects, converts to PCM16 and batches frames into
+// chunks, so the main thread only has to forward ready-made buffers to the session.
+
+export interface CaptureOptions {
+  targetSampleRate?: number;
+  chunkSize?: number; // samples per chunk, at the target rate
+}
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+export const CAPTURE_CHUNK_SIZE = 2048; // 128ms at 16kHz
+
+const PROCESSOR_NAME = 'lingomate-capture';
+
+const WORKLET_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, chunkSize } = options.processorOptions;
+    this.ratio = sampleRate / targetSampleRate;
+    this.chunk = new Int16Array(chunkSize);
+    this.filled = 0;
+    this.position = 0; // fractional read position into the current input block
+    this.last = 0; // last sample of the previous block, for interpolating across blocks
+  }
+
+  push(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.chunk[this.filled++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    if (this.filled === this.chunk.length) {
+      this.port.postMessage(this.chunk.buffer, [this.chunk.buffer]);
+      this.chunk = new Int16Array(this.chunk.length);
+      this.filled = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    // Linear interpolation. When downsampling we also average the samples we skip over,
+    // which is a cheap low-pass that keeps most of the aliasing out.
+    while (this.position < input.length) {
+      const index = Math.floor(this.position);
+      const frac = this.position - index;
+      const prev = index === 0 ? this.last : input[index - 1];
+      let sample = prev + (input[index] - prev) * frac;
+      if (this.ratio > 1) {
+        const start = Math.max(0, Math.floor(this.position - this.ratio) + 1);
+        let sum = 0;
+        let count = 0;
+        for (let i = start; i <= index; i++) { sum += input[i]; count++; }
+        sample = (sample + sum) / (count + 1);
+      }
+      this.push(sample);
+      this.position += this.ratio;
+    }
+    this.position -= input.length;
+    this.last = input[input.length - 1];
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', CaptureProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+const ensureWorkletLoaded = async (ctx: AudioContext) => {
+  if (loadedContexts.has(ctx)) return;
+  if (!ctx.audioWorklet) {
+    throw new Error('AudioWorklet is not supported in this browser');
+  }
+  const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loadedContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Connects `source` to a capture worklet and calls `onChunk` with PCM16 chunks at the target rate.
+export const createCaptureNode = async (
+  ctx: AudioContext,
+  source: AudioNode,
+  onChunk: (pcm: Int16Array) => void,
+  { targetSampleRate = CAPTURE_SAMPLE_RATE, chunkSize = CAPTURE_CHUNK_SIZE }: CaptureOptions = {}
+): Promise<AudioWorkletNode> => {
+  await ensureWorkletLoaded(ctx);
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetSampleRate, chunkSize }
+  });
+  node.port.onmessage = (e: MessageEvent<ArrayBuffer>) => onChunk(new Int16Array(e.data));
+  source.connect(node);
+  return node;
+};
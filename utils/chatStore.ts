@@ -0,0 +1,74 @@
+import { ChatMessage, ChatThread, Sender } from '../types';
+import { THREADS_STORE, getAll, getOne, putOne, deleteOne } from './db';
+import { DEFAULT_PROFILE_ID, getActiveProfileId } from './storage';
+
+export interface ThreadSearchResult {
+  thread: ChatThread;
+  message: ChatMessage;
+  snippet: string;
+}
+
+const TITLE_LENGTH = 40;
+const SNIPPET_RADIUS = 40;
+
+export const NEW_THREAD_TITLE = 'New chat';
+
+export const createThread = (messages: ChatMessage[]): ChatThread => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  profileId: getActiveProfileId(),
+  title: NEW_THREAD_TITLE,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+  messages
+});
+
+// Name a thread after its first question until the learner renames it
+export const deriveTitle = (thread: ChatThread): string => {
+  if (thread.title !== NEW_THREAD_TITLE) return thread.title;
+  const firstQuestion = thread.messages.find(m => m.role === Sender.USER)?.text.trim();
+  if (!firstQuestion) return thread.title;
+  return firstQuestion.length > TITLE_LENGTH ? `${firstQuestion.slice(0, TITLE_LENGTH)}...` : firstQuestion;
+};
+
+const belongsTo = (thread: ChatThread, profileId: string) => (thread.profileId ?? DEFAULT_PROFILE_ID) === profileId;
+
+// The active learner's threads, most recently updated first
+export const listThreads = async (): Promise<ChatThread[]> => {
+  const profileId = getActiveProfileId();
+  const threads = await getAll<ChatThread>(THREADS_STORE);
+  return threads.filter(t => belongsTo(t, profileId)).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getThread = (id: string) => getOne<ChatThread>(THREADS_STORE, id);
+
+export const saveThread = (thread: ChatThread) =>
+  putOne(THREADS_STORE, { ...thread, title: deriveTitle(thread), updatedAt: Date.now() });
+
+export const deleteThread = (id: string) => deleteOne(THREADS_STORE, id);
+
+export const deleteProfileThreads = async (profileId: string) => {
+  const threads = await getAll<ChatThread>(THREADS_STORE);
+  await Promise.all(threads.filter(t => belongsTo(t, profileId)).map(t => deleteThread(t.id)));
+};
+
+const makeSnippet = (text: string, index: number, length: number) => {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '...' : ''}${text.slice(start, end)}${end < text.length ? '...' : ''}`;
+};
+
+// Case-insensitive search across every message of every thread
+export const searchThreads = async (query: string): Promise<ThreadSearchResult[]> => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const results: ThreadSearchResult[] = [];
+  for (const thread of await listThreads()) {
+    for (const message of thread.messages) {
+      const index = message.text.toLowerCase().indexOf(needle);
+      if (index >= 0) {
+        results.push({ thread, message, snippet: makeSnippet(message.text, index, needle.length) });
+      }
+    }
+  }
+  return results;
+};
@@ -0,0 +1,58 @@
+// Minimal promise wrapper around IndexedDB. Used for data too big or too structured for localStorage.
+
+const DB_NAME = 'lingomate';
+const DB_VERSION = 2;
+
+export const THREADS_STORE = 'threads';
+export const RECORDINGS_STORE = 'recordings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(THREADS_STORE)) {
+          db.createObjectStore(THREADS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+          db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getAll = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDB();
+  return promisify<T[]>(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+};
+
+export const getOne = async <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDB();
+  return promisify<T | undefined>(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+};
+
+export const putOne = async <T>(storeName: string, value: T): Promise<void> => {
+  const db = await openDB();
+  await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+};
+
+export const deleteOne = async (storeName: string, key: IDBValidKey): Promise<void> => {
+  const db = await openDB();
+  await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key));
+};
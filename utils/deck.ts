@@ -0,0 +1,43 @@
+import { CardSource, DeckCard } from '../types';
+import { loadJSON, profileKey, saveJSON } from './storage';
+import { newCardSchedule, isDue } from './srs';
+
+const STORAGE_KEY = 'lingomate.deck';
+
+const normalizeFront = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const loadDeck = (): DeckCard[] => loadJSON<DeckCard[]>(profileKey(STORAGE_KEY), []);
+
+export const saveDeck = (cards: DeckCard[]) => saveJSON(profileKey(STORAGE_KEY), cards);
+
+// Adds a phrase unless the deck already has it. Returns the card either way.
+export const addToDeck = (front: string, back: string, source: CardSource): DeckCard | null => {
+  if (!front.trim()) return null;
+  const deck = loadDeck();
+  const existing = deck.find(c => normalizeFront(c.front) === normalizeFront(front));
+  if (existing) return existing;
+
+  const card: DeckCard = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    front: front.trim(),
+    back: back.trim(),
+    source,
+    createdAt: Date.now(),
+    ...newCardSchedule()
+  };
+  saveDeck([...deck, card]);
+  return card;
+};
+
+export const updateCard = (card: DeckCard) => {
+  saveDeck(loadDeck().map(c => (c.id === card.id ? card : c)));
+};
+
+export const removeCard = (id: string) => {
+  saveDeck(loadDeck().filter(c => c.id !== id));
+};
+
+export const getDueCards = (now = Date.now()): DeckCard[] =>
+  loadDeck()
+    .filter(c => isDue(c, now))
+    .sort((a, b) => a.due - b.due);
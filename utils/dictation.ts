@@ -0,0 +1,104 @@
+import { DictationSession, LearnerLevel } from '../types';
+import { DICTATION_BANK } from '../data/dictation';
+import { loadJSON, profileKey, saveJSON } from './storage';
+import { alignWords, alignmentScore, normalizeWord, tokenize, WordAlignment } from './textDiff';
+
+const STORAGE_KEY = 'lingomate.dictation';
+const MAX_SESSIONS = 30;
+// Bank sentences from this many recent sessions are skipped while there are fresh ones left
+const AVOID_RECENT_SESSIONS = 3;
+
+export const SENTENCES_PER_SESSION = 5;
+
+// A wrong word counts as a spelling mistake (not a different word) when this share of its letters is right
+const MISSPELLING_SIMILARITY = 0.5;
+
+export interface DictationWord extends WordAlignment {
+  misspelled?: boolean;
+}
+
+export interface DictationScore {
+  words: DictationWord[];
+  wordScore: number;
+  charScore: number;
+  misspelled: string[];
+}
+
+// Apostrophes are punctuation here like any other, so "dont" for "don't" is not a spelling mistake
+export const normalizeDictationWord = (word: string) => normalizeWord(word).replace(/['‘’]/g, '');
+
+// Tokens that are only punctuation are dropped
+const cleanText = (text: string) =>
+  tokenize(text).filter(word => normalizeDictationWord(word)).join(' ');
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string) => 1 - editDistance(a, b) / Math.max(a.length, b.length, 1);
+
+// Scores a typed answer against the dictated sentence, ignoring case and punctuation:
+// by whole words (as in shadowing) and by letters, so a near miss still earns most of the credit.
+export const scoreDictation = (sentence: string, answer: string): DictationScore => {
+  const expected = cleanText(sentence);
+  const typed = cleanText(answer);
+  const alignment = alignWords(expected, typed, normalizeDictationWord);
+
+  const words: DictationWord[] = alignment.map(a =>
+    a.op === 'substituted' && similarity(normalizeDictationWord(a.expected!), normalizeDictationWord(a.heard!)) >= MISSPELLING_SIMILARITY
+      ? { ...a, misspelled: true }
+      : a
+  );
+
+  const expectedLetters = tokenize(expected).map(normalizeDictationWord).join(' ');
+  const typedLetters = tokenize(typed).map(normalizeDictationWord).join(' ');
+  const charScore = expectedLetters
+    ? Math.max(0, 1 - editDistance(expectedLetters, typedLetters) / expectedLetters.length)
+    : 0;
+
+  // Kept with their apostrophes, as they go into the review deck
+  const misspelled = [...new Set(words.filter(w => w.misspelled).map(w => normalizeWord(w.expected!.replace(/[‘’]/g, "'"))))];
+  return { words, wordScore: alignmentScore(alignment), charScore, misspelled };
+};
+
+// --- Sessions ---
+
+// Newest first
+export const loadDictationSessions = (): DictationSession[] =>
+  loadJSON<DictationSession[]>(profileKey(STORAGE_KEY), []);
+
+// Saved after every sentence, so a session left halfway still counts
+export const saveDictationSession = (session: DictationSession) => {
+  const others = loadDictationSessions().filter(s => s.id !== session.id);
+  saveJSON(profileKey(STORAGE_KEY), [session, ...others].slice(0, MAX_SESSIONS));
+};
+
+export const sessionScore = (session: DictationSession) =>
+  session.results.length === 0 ? 0 : session.results.reduce((sum, r) => sum + r.charScore, 0) / session.results.length;
+
+const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+export const pickBankSentences = (level: LearnerLevel, count = SENTENCES_PER_SESSION): string[] => {
+  const recent = new Set(
+    loadDictationSessions().slice(0, AVOID_RECENT_SESSIONS).flatMap(s => s.results.map(r => r.sentence))
+  );
+  const bank = DICTATION_BANK[level];
+  const fresh = shuffle(bank.filter(sentence => !recent.has(sentence)));
+  const seen = shuffle(bank.filter(sentence => recent.has(sentence)));
+  return [...fresh, ...seen].slice(0, count);
+};
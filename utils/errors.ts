@@ -0,0 +1,112 @@
+import { ExplanationLanguage, FailureKind, TutorSettings } from '../types';
+import { FAILURE_MESSAGES, FAILURE_MESSAGES_EN } from '../data/failureMessages';
+
+// One place to decide why something failed, whether it's worth retrying, and what
+// to tell the learner about it.
+
+// Thrown by our own code when the kind is already known (a blocked reply, no audio, a used-up budget)
+export class TutorError extends Error {
+  constructor(public kind: FailureKind, message: string = FAILURE_MESSAGES_EN[kind]) {
+    super(message);
+    this.name = 'TutorError';
+  }
+}
+
+// Both Gemini and the proxy put "per day" / "tomorrow" in messages about daily quotas
+const DAILY_QUOTA = /per ?day|daily|tomorrow/i;
+const MODEL_MISSING = /not found|not supported|is deprecated|unknown model/i;
+
+const messageOf = (error: unknown) => (error instanceof Error ? error.message : String(error ?? ''));
+
+// HTTP status from the SDK's ApiError, if any
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export const classifyError = (error: unknown): FailureKind => {
+  if (error instanceof TutorError) return error.kind;
+
+  // getUserMedia failures
+  if (error instanceof DOMException) {
+    if (error.name === 'NotAllowedError' || error.name === 'SecurityError') return FailureKind.MIC_DENIED;
+    if (error.name === 'NotFoundError' || error.name === 'NotReadableError' || error.name === 'OverconstrainedError') {
+      return FailureKind.MIC_UNAVAILABLE;
+    }
+  }
+
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return FailureKind.OFFLINE;
+
+  const message = messageOf(error);
+  const status = statusOf(error);
+  if (status === 429 || /RESOURCE_EXHAUSTED/.test(message)) {
+    return DAILY_QUOTA.test(message) ? FailureKind.QUOTA_EXHAUSTED : FailureKind.RATE_LIMITED;
+  }
+  // A 404 alone could be a misrouted request; only retire a model when the message is about it
+  if (status !== undefined && status < 500 && /model/i.test(message) && (status === 404 || MODEL_MISSING.test(message))) {
+    return FailureKind.UNSUPPORTED_MODEL;
+  }
+  if (status !== undefined && status >= 500) return FailureKind.SERVER_ERROR;
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) return FailureKind.OFFLINE;
+  return FailureKind.UNKNOWN;
+};
+
+// A Live socket closed by the server or proxy with a policy reason (code 1008)
+export const classifyCloseReason = (reason: string): FailureKind => {
+  if (MODEL_MISSING.test(reason)) return FailureKind.UNSUPPORTED_MODEL;
+  if (/limit|used up|quota|already running|too many/i.test(reason)) {
+    return DAILY_QUOTA.test(reason) || /used up/i.test(reason) ? FailureKind.QUOTA_EXHAUSTED : FailureKind.RATE_LIMITED;
+  }
+  return FailureKind.UNKNOWN;
+};
+
+export const isTransient = (kind: FailureKind) =>
+  kind === FailureKind.RATE_LIMITED || kind === FailureKind.SERVER_ERROR || kind === FailureKind.OFFLINE;
+
+// Gemini suggests a wait in its 429 details, e.g. "retryDelay": "21s"
+const suggestedDelayMs = (error: unknown) => {
+  const match = messageOf(error).match(/retryDelay"?:\s*"?(\d+(?:\.\d+)?)s/);
+  return match ? Number(match[1]) * 1000 : null;
+};
+
+const MAX_RETRY_DELAY_MS = 10000;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+// Retries rate limits, server errors and network blips: 1s, 2s (plus jitter), or the server's
+// suggested wait. Gives up at once on anything a retry won't fix, or if the wait would be too long.
+export const withRetry = async <T>(
+  fn: () => Promise<T>,
+  { retries = 2, baseDelayMs = 1000, signal }: { retries?: number; baseDelayMs?: number; signal?: AbortSignal } = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (signal?.aborted || attempt >= retries || !isTransient(classifyError(error))) throw error;
+      const delay = suggestedDelayMs(error) ?? baseDelayMs * 2 ** attempt + Math.random() * 250;
+      if (delay > MAX_RETRY_DELAY_MS) throw error;
+      console.warn(`Retrying after ${Math.round(delay)}ms`, error);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+// The learner-facing text for a failure, in their explanation language
+export const failureMessage = (error: unknown, settings: TutorSettings) => {
+  const kind = classifyError(error);
+  return settings.explanationLanguage === ExplanationLanguage.ENGLISH
+    ? FAILURE_MESSAGES_EN[kind]
+    : FAILURE_MESSAGES[settings.nativeLanguage][kind];
+};
+
+export const messageForKind = (kind: FailureKind, settings: TutorSettings) =>
+  failureMessage(new TutorError(kind), settings);
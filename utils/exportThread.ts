@@ -0,0 +1,35 @@
+import { GroundingMetadata } from '@google/genai';
+import { ChatThread, Sender } from '../types';
+import { chunkSource } from './grounding';
+
+export const threadToMarkdown = (thread: ChatThread): string => {
+  const lines = [`# ${thread.title}`, '', `_Started ${new Date(thread.createdAt).toLocaleString()}_`, ''];
+  for (const msg of thread.messages) {
+    const who = msg.role === Sender.USER ? 'You' : 'LingoMate';
+    lines.push(`## ${who} · ${new Date(msg.timestamp).toLocaleString()}`, '');
+    if (msg.image) lines.push('_[Photo attached]_', '');
+    lines.push(msg.text, '');
+    const metadata: GroundingMetadata | undefined = msg.groundingMetadata;
+    const sources = (metadata?.groundingChunks || []).map(chunkSource).filter(source => source?.uri);
+    if (sources.length > 0) {
+      lines.push('Sources:', ...sources.map(source => `- [${source!.title || source!.uri}](${source!.uri})`), '');
+    }
+  }
+  return lines.join('\n');
+};
+
+export const threadToJSON = (thread: ChatThread): string => JSON.stringify(thread, null, 2);
+
+const safeFileName = (title: string) => title.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '').slice(0, 50) || 'chat';
+
+export const downloadThread = (thread: ChatThread, format: 'md' | 'json') => {
+  const content = format === 'md' ? threadToMarkdown(thread) : threadToJSON(thread);
+  const type = format === 'md' ? 'text/markdown' : 'application/json';
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${safeFileName(thread.title)}.${format}`;
+  link.click();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
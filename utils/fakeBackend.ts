@@ -0,0 +1,432 @@
+import { FunctionResponse, LiveServerMessage } from '@google/genai';
+import { ChatMessage, GrammarCheckResult, GrammarError, GrammarErrorCategory, LearnerLevel, LearnerProfile, LessonSummary, NativeLanguage, Scenario, Sender, SpeakingPace, TutorSettings, UsageFeature } from '../types';
+import { AudioInput, ChatRequest, LiveCallbacks, LiveRequest, LiveSession, TutorBackend } from './backend';
+import { pcm16ToBlob } from './audioUtils';
+import { ADD_VOCABULARY, LOG_MISTAKE, MARK_GOAL_COMPLETE, REPORT_SPEAKING_LEVEL } from './liveTools';
+import { recordUsage } from './usage';
+import { DICTATION_BANK } from '../data/dictation';
+
+// Offline stand-in for Gemini: scripted text, synthesized tones instead of
+// speech, and a simulated Live tutor. Everything is deterministic so demos and
+// UI work behave the same on every run.
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const INPUT_SAMPLE_RATE = 16000;
+// Simulated learner turn after this much microphone audio
+const LEARNER_TURN_SECONDS = 6;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+// Usage is recorded like the real backend's, with rough counts, so the usage screen and budgets work in demos
+const FAKE_MODEL = 'fake';
+// Gemini bills audio at about 32 tokens a second
+const AUDIO_TOKENS_PER_SECOND = 32;
+
+const fakeUsage = (promptTokens: number, outputTokens: number, thoughtsTokens = 0) => ({
+  promptTokenCount: Math.round(promptTokens),
+  candidatesTokenCount: Math.round(outputTokens),
+  thoughtsTokenCount: Math.round(thoughtsTokens),
+  totalTokenCount: Math.round(promptTokens + outputTokens + thoughtsTokens)
+});
+
+const textTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Stable small number from a string, so the same input always picks the same script
+const hashOf = (text: string) => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(hash);
+};
+
+// --- Chat ---
+
+const CHAT_REPLIES: { keywords: RegExp; reply: string }[] = [
+  {
+    keywords: /doctor|hospital|clinic|medicine|fever/i,
+    reply: 'At the clinic you can say: **"I have had a fever since yesterday."**\n\n- *since yesterday* — from yesterday until now\n- *prescription* — the doctor\'s note for medicine\n\nTry saying it out loud once or twice.'
+  },
+  {
+    keywords: /bank|money|deposit|passbook/i,
+    reply: 'At the bank counter, start with **"I would like to deposit some money."**\n\n1. Fill in the deposit form.\n2. Write your account number.\n3. Sign at the bottom.\n\n*deposit* means to put money into your account.'
+  },
+  {
+    keywords: /near|nearby|where|shop|market/i,
+    reply: 'Here is a place close to you: **City Market** is a short walk away.\n\nYou can ask someone: *"Excuse me, how do I get to City Market?"*'
+  },
+  {
+    keywords: /photo|sign|label|form/i,
+    reply: 'The sign says **"Please queue here"**.\n\n- *queue* — a line of people waiting their turn\n\nSo you should stand in the line and wait.'
+  }
+];
+
+const DEFAULT_CHAT_REPLY = 'Good question! A simple way to say it is: **"Could you please help me?"**\n\n- *Could you* is more polite than *Can you*.\n- Add *please* to sound friendly.\n\nWould you like another example?';
+
+const THINKING_PREFIX = 'Let me explain step by step.\n\n';
+
+// Fake Maps grounding so place cards and citations can be shown offline
+const FAKE_PLACE_METADATA = {
+  groundingChunks: [
+    { maps: { title: 'City Market', text: 'Fresh vegetables, fruit and household goods.', uri: 'https://maps.google.com/?q=City+Market' } }
+  ],
+  groundingSupports: [
+    { segment: { text: 'Here is a place close to you: **City Market** is a short walk away.' }, groundingChunkIndices: [0] }
+  ]
+};
+
+async function* streamChat({ history, thinking, signal }: ChatRequest) {
+  const question = [...history].reverse().find(m => m.role === Sender.USER);
+  const text = `${question?.image ? 'photo ' : ''}${question?.text || ''}`;
+  const match = CHAT_REPLIES.find(entry => entry.keywords.test(text));
+  const reply = (thinking ? THINKING_PREFIX : '') + (match?.reply || DEFAULT_CHAT_REPLY);
+  const groundingMetadata = match && /City Market/.test(match.reply) && !thinking ? FAKE_PLACE_METADATA : undefined;
+
+  await wait(thinking ? 1200 : 300, signal);
+  // Stream a few words at a time, like the real API
+  const pieces = reply.match(/\S+\s*/g) || [];
+  try {
+    for (let i = 0; i < pieces.length; i += 3) {
+      await wait(60, signal);
+      yield { text: pieces.slice(i, i + 3).join(''), groundingMetadata };
+    }
+  } finally {
+    const prompt = history.reduce((sum, m) => sum + textTokens(m.text) + (m.image ? 258 : 0), 0);
+    recordUsage(thinking ? UsageFeature.THINKING : UsageFeature.CHAT, FAKE_MODEL, fakeUsage(prompt, textTokens(reply), thinking ? 2000 : 0));
+  }
+}
+
+// --- Grammar check ---
+
+interface GrammarRule {
+  pattern: RegExp;
+  replace: (match: string, ...groups: string[]) => string;
+  category: GrammarErrorCategory;
+  explanation: string;
+}
+
+const PAST_TENSE: Record<string, string> = { go: 'went', eat: 'ate', buy: 'bought', see: 'saw', come: 'came', take: 'took' };
+const THIRD_PERSON: Record<string, string> = { go: 'goes', do: 'does', have: 'has', want: 'wants', like: 'likes', need: 'needs' };
+
+const GRAMMAR_RULES: GrammarRule[] = [
+  {
+    pattern: /\b(yesterday|last (?:week|night|month|year))\b([^.?!]*?)\b(go|eat|buy|see|come|take)\b/i,
+    replace: (_m, when, middle, verb) => `${when}${middle}${PAST_TENSE[verb.toLowerCase()]}`,
+    category: GrammarErrorCategory.TENSE,
+    explanation: 'Use the past tense for something that already happened.'
+  },
+  {
+    pattern: /\b(he|she|it) (go|do|have|want|like|need)\b/i,
+    replace: (_m, subject, verb) => `${subject} ${THIRD_PERSON[verb.toLowerCase()]}`,
+    category: GrammarErrorCategory.AGREEMENT,
+    explanation: 'With he, she or it, the verb takes -s (or has/does).'
+  },
+  {
+    pattern: /\ba ([aeiou]\w*)/i,
+    replace: (m, word) => `${m[0] === 'A' ? 'An' : 'an'} ${word}`,
+    category: GrammarErrorCategory.ARTICLE,
+    explanation: 'Use "an" before a word that starts with a vowel sound.'
+  },
+  {
+    pattern: /\bdiscuss about\b/i,
+    replace: () => 'discuss',
+    category: GrammarErrorCategory.PREPOSITION,
+    explanation: '"Discuss" does not need "about".'
+  },
+  {
+    pattern: /(^|\s)i(?=\s|'|$)/,
+    replace: (_m, space) => `${space}I`,
+    category: GrammarErrorCategory.SPELLING,
+    explanation: '"I" is always written as a capital letter.'
+  }
+];
+
+const checkGrammar = async (_profile: LearnerProfile, sentence: string): Promise<GrammarCheckResult> => {
+  await wait(400);
+  let corrected = sentence.trim();
+  const errors: GrammarError[] = [];
+
+  for (const rule of GRAMMAR_RULES) {
+    const match = corrected.match(rule.pattern);
+    if (!match) continue;
+    const replacement = rule.replace(match[0], ...match.slice(1));
+    errors.push({ original: match[0].trim(), correction: replacement.trim(), category: rule.category, explanation: rule.explanation });
+    corrected = corrected.replace(rule.pattern, replacement);
+  }
+  if (corrected && !/[.?!]$/.test(corrected)) {
+    errors.push({ original: corrected.split(/\s+/).pop()!, correction: `${corrected.split(/\s+/).pop()}.`, category: GrammarErrorCategory.PUNCTUATION, explanation: 'End the sentence with a full stop.' });
+    corrected += '.';
+  }
+
+  recordUsage(UsageFeature.GRAMMAR_CHECK, FAKE_MODEL, fakeUsage(textTokens(sentence) + 200, textTokens(corrected) + 40 * errors.length));
+  return {
+    isCorrect: errors.length === 0,
+    corrected,
+    errors,
+    explanation: errors.length === 0 ? 'Perfect! This sentence is correct.' : 'Good try! Look at the small changes below.'
+  };
+};
+
+// --- Transcription ---
+
+let transcriptionCount = 0;
+
+const transcribe = async ({ expected }: AudioInput): Promise<string> => {
+  await wait(500);
+  recordUsage(UsageFeature.TRANSCRIPTION, FAKE_MODEL, fakeUsage(AUDIO_TOKENS_PER_SECOND * 4, textTokens(expected || '') + 5));
+  transcriptionCount++;
+  if (!expected) return 'I would like to see the doctor today.';
+  // Every other attempt drops the last word, so both perfect and imperfect results can be shown
+  if (transcriptionCount % 2 === 0) return expected;
+  const words = expected.trim().split(/\s+/);
+  return words.length > 1 ? words.slice(0, -1).join(' ') : expected;
+};
+
+// --- Speech ---
+
+const PACE_WORD_MS: Record<SpeakingPace, number> = {
+  [SpeakingPace.SLOW]: 420,
+  [SpeakingPace.NORMAL]: 300,
+  [SpeakingPace.FAST]: 220
+};
+const SLOW_REPLAY_WORD_MS = 650;
+
+// A soft tone per word (pitch from the word itself) with a short gap — enough to
+// drive playback, visualizers and timing without a speech model.
+const synthesizePcm = (text: string, wordMs: number): Int16Array => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const wordSamples = Math.round((wordMs / 1000) * OUTPUT_SAMPLE_RATE);
+  const gapSamples = Math.round(0.08 * OUTPUT_SAMPLE_RATE);
+  const pcm = new Int16Array(words.length * (wordSamples + gapSamples));
+
+  words.forEach((word, w) => {
+    const frequency = 180 + (hashOf(word) % 120);
+    const offset = w * (wordSamples + gapSamples);
+    for (let i = 0; i < wordSamples; i++) {
+      const envelope = Math.sin((Math.PI * i) / wordSamples);
+      pcm[offset + i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / OUTPUT_SAMPLE_RATE) * envelope * 6000);
+    }
+  });
+  return pcm;
+};
+
+const synthesizeSpeech = async (text: string, settings: TutorSettings, slow = false): Promise<string | null> => {
+  await wait(200);
+  if (!text.trim()) return null;
+  const pcm = synthesizePcm(text, slow ? SLOW_REPLAY_WORD_MS : PACE_WORD_MS[settings.pace]);
+  recordUsage(UsageFeature.TTS, FAKE_MODEL, fakeUsage(textTokens(text), (pcm.length / OUTPUT_SAMPLE_RATE) * AUDIO_TOKENS_PER_SECOND));
+  return pcm16ToBlob(pcm, OUTPUT_SAMPLE_RATE).data || null;
+};
+
+// --- Dictation ---
+
+let dictationOffset = 0;
+
+// Walks through the bank for the learner's level, so each request gives the next few sentences
+const generateDictation = async ({ settings }: LearnerProfile, count: number): Promise<string[]> => {
+  await wait(600);
+  const bank = DICTATION_BANK[settings.level];
+  const sentences = Array.from({ length: Math.min(count, bank.length) }, (_, i) => bank[(dictationOffset + i) % bank.length]);
+  dictationOffset += sentences.length;
+  recordUsage(UsageFeature.DICTATION, FAKE_MODEL, fakeUsage(120, textTokens(sentences.join(' '))));
+  return sentences;
+};
+
+// --- Live ---
+
+const GENERIC_TURNS: { learner: string; tutor: string; mistake?: { original: string; corrected: string; category: GrammarErrorCategory }; word?: { word: string; meanings: Record<NativeLanguage, string> } }[] = [
+  {
+    learner: 'Yesterday I go to the market.',
+    tutor: 'Nice! We say "Yesterday I went to the market." What did you buy there?',
+    mistake: { original: 'Yesterday I go to the market.', corrected: 'Yesterday I went to the market.', category: GrammarErrorCategory.TENSE }
+  },
+  {
+    learner: 'I buyed some vegetables and fruits.',
+    tutor: 'Good! The past of "buy" is "bought": "I bought some vegetables." Which vegetables do you like?',
+    mistake: { original: 'I buyed some vegetables.', corrected: 'I bought some vegetables.', category: GrammarErrorCategory.TENSE }
+  },
+  {
+    learner: 'I like brinjal very much.',
+    tutor: 'Lovely. In English, brinjal is also called "eggplant". Do you cook it often?',
+    word: {
+      word: 'eggplant',
+      meanings: {
+        [NativeLanguage.HINDI]: 'बैंगन',
+        [NativeLanguage.KANNADA]: 'ಬದನೆಕಾಯಿ',
+        [NativeLanguage.TAMIL]: 'கத்தரிக்காய்',
+        [NativeLanguage.TELUGU]: 'వంకాయ',
+        [NativeLanguage.MARATHI]: 'वांगे',
+        [NativeLanguage.BENGALI]: 'বেগুন'
+      }
+    }
+  },
+  {
+    learner: 'Yes, I cook it every week.',
+    tutor: 'Perfect sentence! Tell me, who do you cook for?'
+  }
+];
+
+// The placement interview: two answers, then the verdict
+const PLACEMENT_TURNS: { learner: string; tutor: string }[] = [
+  { learner: 'I live in Pune with my son and his family.', tutor: 'Lovely. Can you tell me about something you did last weekend?' },
+  { learner: 'Last weekend I go to market and buyed vegetables.', tutor: 'Thank you, that was very helpful. Well done!' }
+];
+
+const FAKE_SPEAKING_RESULT = {
+  level: LearnerLevel.A2,
+  summary: 'Speaks clearly about daily life; past tense forms need practice.'
+};
+
+const greetingFor = (name: string, scenario: Scenario | null, placement?: boolean) =>
+  placement
+    ? `Hello ${name}! Let's have a short chat so I can hear your English. Where do you live?`
+    : scenario
+    ? `Hello ${name}! I am ${scenario.persona.split(',')[0]}. How can I help you today?`
+    : `Hello ${name}! I am your English tutor. How was your day today?`;
+
+const connectLive = async ({ profile, scenario, resumptionHandle, placement }: LiveRequest, callbacks: LiveCallbacks): Promise<LiveSession> => {
+  const { settings } = profile;
+  const timers = new Set<number>();
+  let closed = false;
+  let speaking = false;
+  let heardSamples = 0;
+  let turn = resumptionHandle ? Number(resumptionHandle.split('-').pop()) || 0 : 0;
+
+  const later = (ms: number, fn: () => void) => {
+    const timer = window.setTimeout(() => {
+      timers.delete(timer);
+      if (!closed) fn();
+    }, ms);
+    timers.add(timer);
+  };
+
+  const emit = (message: object) => callbacks.onmessage(message as LiveServerMessage);
+
+  // Stream one tutor turn: caption words and matching audio chunks, then turnComplete
+  const speakTurn = (text: string) => {
+    speaking = true;
+    const words = text.split(/\s+/);
+    const wordMs = PACE_WORD_MS[settings.pace] + 80;
+    words.forEach((word, i) => {
+      later(i * wordMs, () => {
+        emit({ serverContent: { outputTranscription: { text: `${word} ` } } });
+        const audio = pcm16ToBlob(synthesizePcm(word, PACE_WORD_MS[settings.pace]), OUTPUT_SAMPLE_RATE);
+        emit({ serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: audio.mimeType, data: audio.data } }] } } });
+      });
+    });
+    later(words.length * wordMs, () => {
+      emit({ serverContent: { turnComplete: true } });
+      reportUsage(heardSamples / INPUT_SAMPLE_RATE, (words.length * wordMs) / 1000);
+      emit({ sessionResumptionUpdate: { resumable: true, newHandle: `fake-session-${turn}` } });
+      speaking = false;
+      heardSamples = 0;
+    });
+  };
+
+  // Like the real server: usage after each turn, with the whole conversation so far as the prompt
+  let contextTokens = 0;
+  let counted = false;
+  const reportUsage = (heardSeconds: number, spokenSeconds: number) => {
+    contextTokens += heardSeconds * AUDIO_TOKENS_PER_SECOND;
+    const usageMetadata = fakeUsage(contextTokens + 400, spokenSeconds * AUDIO_TOKENS_PER_SECOND);
+    contextTokens += spokenSeconds * AUDIO_TOKENS_PER_SECOND;
+    recordUsage(UsageFeature.LIVE, FAKE_MODEL, usageMetadata, counted ? 0 : 1);
+    counted = true;
+    emit({ usageMetadata });
+  };
+
+  const callTool = (name: string, args: Record<string, unknown>) => {
+    emit({ toolCall: { functionCalls: [{ id: `fake-call-${turn}-${name}`, name, args }] } });
+  };
+
+  // The learner "says" the next scripted line; the tutor logs it and answers
+  const learnerTurn = () => {
+    if (placement) {
+      const script = PLACEMENT_TURNS[Math.min(turn, PLACEMENT_TURNS.length - 1)];
+      emit({ serverContent: { inputTranscription: { text: script.learner } } });
+      turn++;
+      later(600, () => speakTurn(script.tutor));
+      if (turn === PLACEMENT_TURNS.length) later(1200, () => callTool(REPORT_SPEAKING_LEVEL, FAKE_SPEAKING_RESULT));
+      return;
+    }
+    const script = GENERIC_TURNS[turn % GENERIC_TURNS.length];
+    const goals = scenario ? [...scenario.goals, ...scenario.checklist] : [];
+    emit({ serverContent: { inputTranscription: { text: script.learner } } });
+
+    if (script.mistake) callTool(LOG_MISTAKE, script.mistake);
+    if (script.word) callTool(ADD_VOCABULARY, { word: script.word.word, meaning: script.word.meanings[settings.nativeLanguage] });
+    if (turn < goals.length) callTool(MARK_GOAL_COMPLETE, { goal_id: goals[turn].id });
+
+    turn++;
+    later(600, () => speakTurn(script.tutor));
+  };
+
+  const session: LiveSession = {
+    sendRealtimeInput: ({ media }) => {
+      if (closed || speaking || !media.data) return;
+      // base64 length -> bytes -> 16-bit samples
+      heardSamples += Math.floor((media.data.length * 3) / 4 / 2);
+      if (heardSamples >= LEARNER_TURN_SECONDS * INPUT_SAMPLE_RATE) {
+        speaking = true; // hold further turns until the tutor has answered
+        learnerTurn();
+      }
+    },
+    sendToolResponse: (_response: { functionResponses: FunctionResponse[] }) => {
+      // Responses are accepted but the script doesn't depend on them
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+      setTimeout(() => callbacks.onclose(), 0);
+    }
+  };
+
+  later(300, () => {
+    callbacks.onopen();
+    emit({ sessionResumptionUpdate: { resumable: true, newHandle: `fake-session-${turn}` } });
+    // A resumed session carries on silently, like the real one
+    if (!resumptionHandle) later(400, () => speakTurn(greetingFor(profile.name, scenario, placement)));
+  });
+
+  return session;
+};
+
+// --- Lesson summary ---
+
+const FAKE_MISTAKE_EXPLANATION = 'Use the past tense for things that already happened.';
+
+// Built from the scripted turns the learner got through, so it matches what was said in the demo call
+const summarizeLesson = async ({ settings }: LearnerProfile, messages: ChatMessage[]): Promise<LessonSummary> => {
+  await wait(800);
+  const said = messages.filter(m => m.role === Sender.USER).map(m => m.text.trim());
+  const reached = GENERIC_TURNS.filter(turn => said.some(text => text.includes(turn.learner)));
+  const turns = reached.length > 0 ? reached : GENERIC_TURNS;
+  const mistakes = turns.flatMap(turn => turn.mistake
+    ? [{ original: turn.mistake.original, corrected: turn.mistake.corrected, explanation: FAKE_MISTAKE_EXPLANATION }]
+    : []);
+  const newWords = turns.flatMap(turn => turn.word ? [{ word: turn.word.word, meaning: turn.word.meanings[settings.nativeLanguage] }] : []);
+  const practiceSentences = [...mistakes.map(m => m.corrected), 'I cook eggplant for my family every week.', 'What did you buy at the market?'].slice(0, 3);
+
+  recordUsage(UsageFeature.LESSON_SUMMARY, FAKE_MODEL, fakeUsage(textTokens(messages.map(m => m.text).join(' ')) + 300, 250));
+  return { topics: ['Going to the market', 'Vegetables and cooking'], mistakes, newWords, practiceSentences };
+};
+
+export const createFakeBackend = (): TutorBackend => ({
+  kind: 'fake',
+  checkAvailability: async () => 'ok',
+  streamChat,
+  checkGrammar,
+  transcribe,
+  synthesizeSpeech,
+  connectLive,
+  generateDictation,
+  summarizeLesson,
+});
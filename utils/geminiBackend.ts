@@ -0,0 +1,279 @@
+import { FinishReason, GenerateContentResponse, GenerateContentResponseUsageMetadata, Modality, Type } from '@google/genai';
+import { ChatMessage, FailureKind, GrammarCheckResult, GrammarErrorCategory, LearnerProfile, LessonSummary, ModelCapability, Sender, TutorSettings, UsageFeature } from '../types';
+import { ChatRequest, LiveCallbacks, LiveRequest, TutorBackend } from './backend';
+import { checkProxy, createClient } from './genai';
+import { buildDictationPrompt, buildGrammarCheckPrompt, buildLessonSummaryPrompt, buildLiveInstruction, buildPlacementInstruction, buildScenarioInstruction, buildSpeechConfig, buildTtsText } from './prompts';
+import { buildLiveTools, buildPlacementTools } from './liveTools';
+import { recordUsage } from './usage';
+import { TutorError, classifyCloseReason, withRetry } from './errors';
+import { activeModel, markModelUnavailable, withModelFallback } from './models';
+
+const GRAMMAR_CHECK_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    isCorrect: { type: Type.BOOLEAN, description: 'True only if the sentence needs no changes at all.' },
+    corrected: { type: Type.STRING, description: 'The full corrected sentence. Same as the input if it is correct.' },
+    errors: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          original: { type: Type.STRING, description: 'The exact wrong words from the input sentence.' },
+          correction: { type: Type.STRING, description: 'The words that replace them.' },
+          category: { type: Type.STRING, enum: Object.values(GrammarErrorCategory) },
+          explanation: { type: Type.STRING, description: 'One short sentence explaining the mistake, in the requested language.' }
+        },
+        required: ['original', 'correction', 'category', 'explanation']
+      }
+    },
+    explanation: { type: Type.STRING, description: 'A short overall comment, in the requested language.' }
+  },
+  required: ['isCorrect', 'corrected', 'errors', 'explanation']
+};
+
+const DICTATION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    sentences: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ['sentences']
+};
+
+const LESSON_SUMMARY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    topics: { type: Type.ARRAY, items: { type: Type.STRING } },
+    mistakes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          original: { type: Type.STRING, description: 'What the learner said.' },
+          corrected: { type: Type.STRING, description: 'The corrected sentence.' },
+          explanation: { type: Type.STRING, description: 'One short explanation, in the requested language.' }
+        },
+        required: ['original', 'corrected', 'explanation']
+      }
+    },
+    newWords: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          word: { type: Type.STRING },
+          meaning: { type: Type.STRING, description: 'A short meaning, in the requested language.' }
+        },
+        required: ['word', 'meaning']
+      }
+    },
+    practiceSentences: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ['topics', 'mistakes', 'newWords', 'practiceSentences']
+};
+
+const BLOCKING_FINISH_REASONS: string[] = [FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII];
+
+// Blocked prompts and replies come back as normal responses with no content, not as errors
+const wasBlocked = (response: GenerateContentResponse) =>
+  !!response.promptFeedback?.blockReason || BLOCKING_FINISH_REASONS.includes(response.candidates?.[0]?.finishReason ?? '');
+
+async function* streamChat({ history, systemInstruction, thinking, location, signal }: ChatRequest) {
+  const ai = createClient();
+  const config: any = { systemInstruction, abortSignal: signal };
+
+  if (thinking) {
+    // Complex reasoning requested
+    config.thinkingConfig = { thinkingBudget: 32768 }; // Max budget
+  } else {
+    // General query: offer both grounding tools and let the model pick
+    config.tools = [{ googleSearch: {} }, { googleMaps: {} }];
+    if (location) {
+      config.toolConfig = { retrievalConfig: { latLng: location } };
+    }
+  }
+
+  const contents = history.filter(m => m.text.trim() || m.image).map(m => ({
+    role: m.role === Sender.USER ? 'user' : 'model',
+    // Photos stay in the history so follow-up questions can still see them
+    parts: [
+      ...(m.image ? [{ inlineData: { mimeType: m.image.mimeType, data: m.image.data } }] : []),
+      { text: m.text }
+    ]
+  }));
+
+  // Only opening the stream is retried; once text has been shown, a failure is final
+  const capability = thinking ? ModelCapability.DEEP_REASONING : ModelCapability.CHAT;
+  const { model, result: stream } = await withModelFallback(capability, model =>
+    withRetry(() => ai.models.generateContentStream({ model, contents, config }), { signal })
+  );
+
+  // Usage arrives with the stream; the last report covers the whole reply
+  let usage: GenerateContentResponseUsageMetadata | undefined;
+  let gotText = false;
+  try {
+    for await (const chunk of stream) {
+      usage = chunk.usageMetadata ?? usage;
+      if (wasBlocked(chunk) && !gotText) throw new TutorError(FailureKind.SAFETY_BLOCKED);
+      gotText = gotText || !!chunk.text;
+      yield { text: chunk.text || '', groundingMetadata: chunk.candidates?.[0]?.groundingMetadata };
+    }
+  } finally {
+    recordUsage(thinking ? UsageFeature.THINKING : UsageFeature.CHAT, model, usage);
+  }
+}
+
+const checkGrammar = async (profile: LearnerProfile, sentence: string): Promise<GrammarCheckResult> => {
+  const ai = createClient();
+  const { model, result: response } = await withModelFallback(ModelCapability.FAST_CHECK, model =>
+    withRetry(() => ai.models.generateContent({
+      model,
+      contents: [{ role: 'user', parts: [{ text: buildGrammarCheckPrompt(profile, sentence) }] }],
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: GRAMMAR_CHECK_SCHEMA
+      }
+    }))
+  );
+  recordUsage(UsageFeature.GRAMMAR_CHECK, model, response.usageMetadata);
+  if (wasBlocked(response)) throw new TutorError(FailureKind.SAFETY_BLOCKED);
+  const result: GrammarCheckResult = JSON.parse(response.text || '{}');
+  return {
+    isCorrect: !!result.isCorrect && !(result.errors?.length),
+    corrected: result.corrected || sentence,
+    errors: result.errors || [],
+    explanation: result.explanation || ''
+  };
+};
+
+const transcribe = async (audio: { base64: string; mimeType: string }): Promise<string> => {
+  const ai = createClient();
+  const { model, result: response } = await withModelFallback(ModelCapability.TRANSCRIPTION, model =>
+    withRetry(() => ai.models.generateContent({
+      model,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: audio.mimeType, data: audio.base64 } },
+          { text: "Transcribe this audio exactly as spoken." }
+        ]
+      }
+    }))
+  );
+  recordUsage(UsageFeature.TRANSCRIPTION, model, response.usageMetadata);
+  return response.text?.trim() || '';
+};
+
+const synthesizeSpeech = async (text: string, settings: TutorSettings, slow = false): Promise<string | null> => {
+  const ai = createClient();
+  const { model, result: response } = await withModelFallback(ModelCapability.TTS, model =>
+    withRetry(() => ai.models.generateContent({
+      model,
+      contents: [{ parts: [{ text: buildTtsText(settings, text, slow) }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: buildSpeechConfig(settings),
+      },
+    }))
+  );
+  recordUsage(UsageFeature.TTS, model, response.usageMetadata);
+  if (wasBlocked(response)) throw new TutorError(FailureKind.SAFETY_BLOCKED);
+  return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+};
+
+const generateDictation = async (profile: LearnerProfile, count: number): Promise<string[]> => {
+  const ai = createClient();
+  const { model, result: response } = await withModelFallback(ModelCapability.CHAT, model =>
+    withRetry(() => ai.models.generateContent({
+      model,
+      contents: [{ role: 'user', parts: [{ text: buildDictationPrompt(profile, count) }] }],
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: DICTATION_SCHEMA
+      }
+    }))
+  );
+  recordUsage(UsageFeature.DICTATION, model, response.usageMetadata);
+  if (wasBlocked(response)) throw new TutorError(FailureKind.SAFETY_BLOCKED);
+  const { sentences }: { sentences?: string[] } = JSON.parse(response.text || '{}');
+  return (sentences || []).map(s => s.trim()).filter(Boolean).slice(0, count);
+};
+
+const summarizeLesson = async (profile: LearnerProfile, messages: ChatMessage[]): Promise<LessonSummary> => {
+  const ai = createClient();
+  const { model, result: response } = await withModelFallback(ModelCapability.CHAT, model =>
+    withRetry(() => ai.models.generateContent({
+      model,
+      contents: [{ role: 'user', parts: [{ text: buildLessonSummaryPrompt(profile, messages) }] }],
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: LESSON_SUMMARY_SCHEMA
+      }
+    }))
+  );
+  recordUsage(UsageFeature.LESSON_SUMMARY, model, response.usageMetadata);
+  if (wasBlocked(response)) throw new TutorError(FailureKind.SAFETY_BLOCKED);
+  const summary: Partial<LessonSummary> = JSON.parse(response.text || '{}');
+  return {
+    topics: summary.topics || [],
+    mistakes: summary.mistakes || [],
+    newWords: summary.newWords || [],
+    practiceSentences: (summary.practiceSentences || []).slice(0, 3)
+  };
+};
+
+const liveSetup = ({ profile, scenario, placement }: LiveRequest) => {
+  if (placement) return { systemInstruction: buildPlacementInstruction(profile), tools: buildPlacementTools() };
+  return {
+    systemInstruction: scenario ? buildScenarioInstruction(profile, scenario) : buildLiveInstruction(profile),
+    tools: buildLiveTools(profile.settings, scenario)
+  };
+};
+
+const connectLive = (request: LiveRequest, callbacks: LiveCallbacks) => {
+  const ai = createClient();
+  const { profile: { settings }, resumptionHandle } = request;
+  // A retired Live model shows up as a policy close; it is marked here so the next connect falls back
+  const model = activeModel(ModelCapability.LIVE_AUDIO);
+  // The server reports usage as the call goes on; count the call itself once
+  let counted = false;
+  return ai.live.connect({
+    model,
+    callbacks: {
+      ...callbacks,
+      onclose: event => {
+        if (event?.code === 1008 && classifyCloseReason(event.reason) === FailureKind.UNSUPPORTED_MODEL) {
+          markModelUnavailable(ModelCapability.LIVE_AUDIO, model, event.reason);
+        }
+        callbacks.onclose(event);
+      },
+      onmessage: message => {
+        if (message.usageMetadata) {
+          recordUsage(UsageFeature.LIVE, model, message.usageMetadata, counted ? 0 : 1);
+          counted = true;
+        }
+        callbacks.onmessage(message);
+      }
+    },
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: buildSpeechConfig(settings),
+      ...liveSetup(request),
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      sessionResumption: { handle: resumptionHandle ?? undefined },
+      // Let the server trim old turns instead of ending long calls
+      contextWindowCompression: { slidingWindow: {} }
+    }
+  });
+};
+
+export const createGeminiBackend = (): TutorBackend => ({
+  kind: 'gemini',
+  checkAvailability: checkProxy,
+  streamChat,
+  checkGrammar,
+  transcribe,
+  synthesizeSpeech,
+  connectLive,
+  generateDictation,
+  summarizeLesson,
+});
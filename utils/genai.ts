@@ -0,0 +1,28 @@
+import { GoogleGenAI } from '@google/genai';
+
+// All Gemini traffic goes through the LingoMate proxy (server/proxy.ts), which
+// holds the real API key. The SDK still insists on an apiKey, so it gets a
+// placeholder that the proxy strips.
+const PROXY_PATH = '/api/gemini';
+const HEALTH_PATH = '/api/health';
+
+export type ProxyStatus = 'ok' | 'unconfigured' | 'unreachable';
+
+// The proxy tells browsers apart by an HttpOnly cookie it sets itself, so
+// there is nothing to send from here.
+export const createClient = (): GoogleGenAI =>
+  new GoogleGenAI({
+    apiKey: 'proxy',
+    httpOptions: { baseUrl: `${window.location.origin}${PROXY_PATH}` },
+  });
+
+export const checkProxy = async (): Promise<ProxyStatus> => {
+  try {
+    const res = await fetch(HEALTH_PATH, { cache: 'no-store' });
+    if (res.ok) return 'ok';
+    const body = await res.json().catch(() => null);
+    return body && body.configured === false ? 'unconfigured' : 'unreachable';
+  } catch {
+    return 'unreachable';
+  }
+};
@@ -0,0 +1,83 @@
+import { GroundingChunk, GroundingMetadata } from '@google/genai';
+
+// Helpers for Google Search / Maps grounding metadata on chat replies
+
+export interface PlaceSource {
+  index: number; // 1-based, matches the citation markers
+  title: string;
+  description?: string;
+  uri?: string;
+  directionsUri: string;
+}
+
+const utf8Length = (codePoint: number) => (codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4);
+
+// Segment offsets are in UTF-8 bytes, which matters for Hindi and Kannada text
+const byteToCharIndex = (text: string, byteIndex: number): number => {
+  let bytes = 0;
+  let i = 0;
+  while (i < text.length && bytes < byteIndex) {
+    const codePoint = text.codePointAt(i)!;
+    bytes += utf8Length(codePoint);
+    i += codePoint > 0xffff ? 2 : 1;
+  }
+  return i;
+};
+
+// Insert footnote-style [^n] markers after each sentence a grounding support backs
+export const addCitationMarkers = (text: string, metadata?: GroundingMetadata): string => {
+  const supports = metadata?.groundingSupports || [];
+  const inserts: { at: number; marker: string }[] = [];
+
+  for (const support of supports) {
+    const indices = support.groundingChunkIndices || [];
+    if (indices.length === 0) continue;
+
+    let end = -1;
+    const segmentText = support.segment?.text;
+    if (segmentText) {
+      const found = text.indexOf(segmentText);
+      if (found >= 0) end = found + segmentText.length;
+    }
+    if (end < 0 && typeof support.segment?.endIndex === 'number') {
+      end = byteToCharIndex(text, support.segment.endIndex);
+    }
+    if (end < 0) continue;
+
+    inserts.push({ at: end, marker: indices.map(i => `[^${i + 1}]`).join('') });
+  }
+
+  // Insert from the end so earlier offsets stay valid
+  return inserts
+    .sort((a, b) => b.at - a.at)
+    .reduce((result, { at, marker }) => result.slice(0, at) + marker + result.slice(at), text);
+};
+
+// The web page or place a chunk points at
+export const chunkSource = (chunk: GroundingChunk): { uri?: string; title?: string } | undefined => chunk.web || chunk.maps;
+
+export const getPlaceSources = (metadata?: GroundingMetadata): PlaceSource[] =>
+  (metadata?.groundingChunks || [])
+    .map((chunk, i) => ({ maps: chunk.maps, index: i + 1 }))
+    .filter(({ maps }) => maps)
+    .map(({ maps, index }) => {
+      const { title = 'Place', text, uri, placeId } = maps!;
+      const params = new URLSearchParams({ api: '1', destination: title });
+      if (placeId) params.set('destination_place_id', placeId.replace(/^places\//, ''));
+      return {
+        index,
+        title,
+        description: text,
+        uri,
+        directionsUri: `https://www.google.com/maps/dir/?${params.toString()}`
+      };
+    });
+
+// Chunk URIs by 1-based index, for linking citation markers to their sources
+export const getSourceLinks = (metadata?: GroundingMetadata): Record<number, { uri?: string; title?: string }> =>
+  Object.fromEntries(
+    (metadata?.groundingChunks || []).map((chunk, i) => {
+      const source = chunkSource(chunk);
+      return [i + 1, { uri: source?.uri, title: source?.title }];
+    })
+  );
@@ -0,0 +1,36 @@
+import { InlineImage } from '../types';
+
+// Phone photos are several MB; this is plenty for reading a label and keeps chat history small
+const MAX_DIMENSION = 1600;
+const JPEG_QUALITY = 0.85;
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read this image'));
+    };
+    img.src = url;
+  });
+
+// Downscale and re-encode a picked or captured photo as JPEG for sending inline
+export const fileToInlineImage = async (file: File): Promise<InlineImage> => {
+  const img = await loadImage(file);
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  return { mimeType: 'image/jpeg', data: dataUrl.split(',')[1] };
+};
+
+export const inlineImageToSrc = (image: InlineImage) => `data:${image.mimeType};base64,${image.data}`;
@@ -0,0 +1,40 @@
+import { GrammarErrorCategory, MistakeEntry, VocabEntry } from '../types';
+import { loadJSON, profileKey, saveJSON } from './storage';
+
+const MISTAKES_KEY = 'lingomate.mistakes';
+const VOCAB_KEY = 'lingomate.vocabulary';
+const MAX_ENTRIES = 500;
+
+const newId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Newest first
+export const loadMistakes = (): MistakeEntry[] => loadJSON<MistakeEntry[]>(profileKey(MISTAKES_KEY), []);
+
+export const logMistake = (entry: Omit<MistakeEntry, 'id' | 'timestamp'>): MistakeEntry => {
+  const category = Object.values(GrammarErrorCategory).includes(entry.category)
+    ? entry.category
+    : GrammarErrorCategory.OTHER;
+  const mistake: MistakeEntry = { ...entry, category, id: newId(), timestamp: Date.now() };
+  saveJSON(profileKey(MISTAKES_KEY), [mistake, ...loadMistakes()].slice(0, MAX_ENTRIES));
+  return mistake;
+};
+
+export const deleteMistake = (id: string) => {
+  saveJSON(profileKey(MISTAKES_KEY), loadMistakes().filter(m => m.id !== id));
+};
+
+// Newest first
+export const loadVocabulary = (): VocabEntry[] => loadJSON<VocabEntry[]>(profileKey(VOCAB_KEY), []);
+
+// Re-adding a word refreshes its meanings and moves it to the top
+export const addVocabulary = (entry: Omit<VocabEntry, 'id' | 'timestamp'>): VocabEntry => {
+  const key = entry.word.trim().toLowerCase();
+  const rest = loadVocabulary().filter(v => v.word.trim().toLowerCase() !== key);
+  const vocab: VocabEntry = { ...entry, word: entry.word.trim(), id: newId(), timestamp: Date.now() };
+  saveJSON(profileKey(VOCAB_KEY), [vocab, ...rest].slice(0, MAX_ENTRIES));
+  return vocab;
+};
+
+export const deleteVocabulary = (id: string) => {
+  saveJSON(profileKey(VOCAB_KEY), loadVocabulary().filter(v => v.id !== id));
+};
@@ -0,0 +1,80 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { GrammarErrorCategory, LearnerLevel, Scenario, TutorSettings } from '../types';
+import { LANGUAGE_NAMES } from './prompts';
+
+// Function tools the Live tutor can call during a session
+
+export const MARK_GOAL_COMPLETE = 'mark_goal_complete';
+export const LOG_MISTAKE = 'log_mistake';
+export const ADD_VOCABULARY = 'add_vocabulary';
+export const REPORT_SPEAKING_LEVEL = 'report_speaking_level';
+
+const markGoalComplete = (scenario: Scenario): FunctionDeclaration => ({
+  name: MARK_GOAL_COMPLETE,
+  description: 'Mark a role-play goal or checklist item as achieved by the learner.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      goal_id: {
+        type: Type.STRING,
+        description: 'The id of the goal or checklist item.',
+        enum: [...scenario.goals, ...scenario.checklist].map(item => item.id)
+      }
+    },
+    required: ['goal_id']
+  }
+});
+
+const logMistake: FunctionDeclaration = {
+  name: LOG_MISTAKE,
+  description: 'Record a mistake the learner made and its correction in their mistake journal.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      original: { type: Type.STRING, description: 'What the learner said.' },
+      corrected: { type: Type.STRING, description: 'The corrected English.' },
+      category: { type: Type.STRING, enum: Object.values(GrammarErrorCategory) }
+    },
+    required: ['original', 'corrected', 'category']
+  }
+};
+
+const addVocabulary = (settings: TutorSettings): FunctionDeclaration => ({
+  name: ADD_VOCABULARY,
+  description: 'Save a new English word or phrase the learner has just learned to their vocabulary list.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      word: { type: Type.STRING, description: 'The English word or phrase.' },
+      meaning: { type: Type.STRING, description: `Its meaning in ${LANGUAGE_NAMES[settings.nativeLanguage]}, the learner's own language.` }
+    },
+    required: ['word', 'meaning']
+  }
+});
+
+const reportSpeakingLevel: FunctionDeclaration = {
+  name: REPORT_SPEAKING_LEVEL,
+  description: "Report the learner's speaking level at the end of the placement interview.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      level: { type: Type.STRING, enum: Object.values(LearnerLevel) },
+      summary: { type: Type.STRING, description: 'One sentence on their strengths and what to work on, in simple English.' }
+    },
+    required: ['level', 'summary']
+  }
+};
+
+export const LIVE_TOOL_INSTRUCTIONS = `
+Whenever you correct a mistake, also call ${LOG_MISTAKE}. Whenever you teach a word or phrase that is new to the learner, also call ${ADD_VOCABULARY}.
+Never mention these tools out loud.
+`;
+
+export const buildLiveTools = (settings: TutorSettings, scenario: Scenario | null) => {
+  const functionDeclarations: FunctionDeclaration[] = [logMistake, addVocabulary(settings)];
+  if (scenario) functionDeclarations.push(markGoalComplete(scenario));
+  return [{ functionDeclarations }];
+};
+
+// The placement interview only grades; it does not log mistakes or vocabulary
+export const buildPlacementTools = () => [{ functionDeclarations: [reportSpeakingLevel] }];
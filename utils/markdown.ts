@@ -0,0 +1,199 @@
+// A small Markdown parser for chat replies. It only produces a tree of known node types which
+// MarkdownText turns into React elements, so no model-provided HTML ever reaches the DOM.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'cite'; indices: number[] } // footnote-style [^n] grounding markers, 1-based
+  | { type: 'br' };
+
+export type BlockNode =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] }
+  | { type: 'code'; text: string }
+  | { type: 'table'; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'quote'; children: InlineNode[] }
+  | { type: 'hr' };
+
+// Only plain web links survive; javascript: and friends are dropped
+export const safeHref = (href: string): string | null => {
+  try {
+    const url = new URL(href.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' || url.protocol === 'mailto:' ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+const INLINE_PATTERN = /(\*\*|__)(.+?)\1|\*([^\s*](?:[^*]*[^\s*])?)\*|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|((?:\[\^\d+\])+)/;
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let rest = text;
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+    if (match.index > 0) nodes.push({ type: 'text', text: rest.slice(0, match.index) });
+
+    const [whole, , strong, em, code, linkText, linkHref, cites] = match;
+    if (strong !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong) });
+    } else if (em !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(em) });
+    } else if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (linkText !== undefined) {
+      const href = safeHref(linkHref);
+      nodes.push(href ? { type: 'link', href, children: parseInline(linkText) } : { type: 'text', text: linkText });
+    } else if (cites !== undefined) {
+      nodes.push({ type: 'cite', indices: [...cites.matchAll(/\d+/g)].map(m => Number(m[0])) });
+    }
+    rest = rest.slice(match.index + whole.length);
+  }
+  return nodes;
+};
+
+// Keeps single line breaks inside a paragraph, as chat replies rely on them
+const parseLines = (lines: string[]): InlineNode[] =>
+  lines.flatMap((line, i) => (i === 0 ? parseInline(line) : [{ type: 'br' } as InlineNode, ...parseInline(line)]));
+
+const splitRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+const isTableSeparator = (line?: string) => !!line && /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/.test(line);
+
+// [^]* rather than .* so a U+2028 inside a line cannot make a block test and its parser disagree
+const HEADING = /^(#{1,6})\s+([^]*)$/;
+const BULLET = /^\s*[-*+]\s+([^]*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+([^]*)$/;
+
+export const parseMarkdown = (source: string): BlockNode[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (/^\s*```/.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !/^\s*```/.test(lines[i])) code.push(lines[i++]);
+      i++; // closing fence (or end of a still-streaming reply)
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (line.includes('|') && isTableSeparator(lines[i + 1])) {
+      const header = splitRow(line).map(parseInline);
+      const rows: InlineNode[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(splitRow(lines[i++]).map(parseInline));
+      }
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    if (BULLET.test(line) || NUMBERED.test(line)) {
+      const ordered = !BULLET.test(line);
+      const pattern = ordered ? NUMBERED : BULLET;
+      const items: InlineNode[][] = [];
+      while (i < lines.length && pattern.test(lines[i])) {
+        items.push(parseInline(pattern.exec(lines[i++])![1]));
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) quoted.push(lines[i++].replace(/^\s*>\s?/, ''));
+      blocks.push({ type: 'quote', children: parseLines(quoted) });
+      continue;
+    }
+
+    // The first line matched none of the blocks above, so it always belongs here and the loop moves on
+    const paragraph: string[] = [lines[i++]];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !/^\s*```/.test(lines[i]) &&
+      !HEADING.test(lines[i]) &&
+      !BULLET.test(lines[i]) &&
+      !NUMBERED.test(lines[i]) &&
+      !(lines[i].includes('|') && isTableSeparator(lines[i + 1]))
+    ) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push({ type: 'paragraph', children: parseLines(paragraph) });
+  }
+
+  return blocks;
+};
+
+const inlineToText = (nodes: InlineNode[]): string =>
+  nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'strong':
+        case 'em':
+        case 'link':
+          return inlineToText(node.children);
+        case 'br':
+          return '\n';
+        case 'cite':
+          return '';
+      }
+    })
+    .join('');
+
+// Plain text for reading a reply aloud, without asterisks, pipes or citation markers
+export const markdownToPlainText = (source: string): string =>
+  parseMarkdown(source)
+    .map(block => {
+      switch (block.type) {
+        case 'heading':
+        case 'paragraph':
+        case 'quote':
+          return inlineToText(block.children);
+        case 'list':
+          return block.items.map(inlineToText).join('\n');
+        case 'code':
+          return block.text;
+        case 'table':
+          return [block.header, ...block.rows].map(row => row.map(inlineToText).join(', ')).join('\n');
+        case 'hr':
+          return '';
+      }
+    })
+    .filter(Boolean)
+    .join('\n');
@@ -0,0 +1,121 @@
+import { FailureKind, ModelCapability, ModelFailure } from '../types';
+import { loadJSON, saveJSON } from './storage';
+import { classifyError } from './errors';
+
+// Which model does which job. Preview models get retired regularly, so every capability
+// lists fallbacks; a model the API reports as missing is skipped until it is re-checked.
+
+const FAILURES_KEY = 'lingomate.modelFailures';
+const MAX_EVENTS = 20;
+// A retired model stays retired, but a wrong guess shouldn't pin a fallback forever
+const RECHECK_AFTER_MS = 24 * 60 * 60 * 1000;
+
+interface ModelEntry {
+  label: string;
+  models: string[]; // preferred first
+}
+
+export const MODEL_REGISTRY: Record<ModelCapability, ModelEntry> = {
+  [ModelCapability.LIVE_AUDIO]: {
+    label: 'Live calls',
+    models: ['gemini-2.5-flash-native-audio-preview-09-2025', 'gemini-live-2.5-flash-preview', 'gemini-2.0-flash-live-001']
+  },
+  [ModelCapability.CHAT]: {
+    label: 'Chat',
+    models: ['gemini-2.5-flash', 'gemini-flash-latest', 'gemini-2.0-flash']
+  },
+  // Fallbacks must accept the full 32k thinking budget
+  [ModelCapability.DEEP_REASONING]: {
+    label: 'Thinking Mode',
+    models: ['gemini-3-pro-preview', 'gemini-2.5-pro']
+  },
+  [ModelCapability.FAST_CHECK]: {
+    label: 'Grammar check',
+    models: ['gemini-flash-lite-latest', 'gemini-2.5-flash-lite', 'gemini-2.5-flash']
+  },
+  [ModelCapability.TRANSCRIPTION]: {
+    label: 'Transcription',
+    models: ['gemini-2.5-flash', 'gemini-flash-latest', 'gemini-2.5-flash-lite']
+  },
+  [ModelCapability.TTS]: {
+    label: 'Read aloud',
+    models: ['gemini-2.5-flash-preview-tts', 'gemini-2.5-pro-preview-tts']
+  }
+};
+
+interface FailureLog {
+  failures: ModelFailure[]; // newest first, at most one per capability and model
+}
+
+const loadLog = (): FailureLog => loadJSON<FailureLog>(FAILURES_KEY, { failures: [] });
+
+const listeners = new Set<() => void>();
+
+// Lets the diagnostics view refresh when a fallback happens
+export const onModelChange = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const activeFailure = (failures: ModelFailure[], capability: ModelCapability, model: string, now = Date.now()) =>
+  failures.find(f => f.capability === capability && f.model === model && now - f.timestamp < RECHECK_AFTER_MS);
+
+// The models still worth trying, in order. If every one has failed, all of them are tried again.
+export const modelsToTry = (capability: ModelCapability): string[] => {
+  const { failures } = loadLog();
+  const { models } = MODEL_REGISTRY[capability];
+  const usable = models.filter(model => !activeFailure(failures, capability, model));
+  return usable.length > 0 ? usable : models;
+};
+
+export const activeModel = (capability: ModelCapability) => modelsToTry(capability)[0];
+
+// False once every model for the capability has failed recently
+export const hasUsableModel = (capability: ModelCapability) => {
+  const { failures } = loadLog();
+  return MODEL_REGISTRY[capability].models.some(model => !activeFailure(failures, capability, model));
+};
+
+export const isUsingFallback = (capability: ModelCapability) =>
+  activeModel(capability) !== MODEL_REGISTRY[capability].models[0];
+
+export const markModelUnavailable = (capability: ModelCapability, model: string, reason: string) => {
+  const log = loadLog();
+  const failure: ModelFailure = { capability, model, reason, timestamp: Date.now() };
+  log.failures = [failure, ...log.failures.filter(f => f.capability !== capability || f.model !== model)].slice(0, MAX_EVENTS);
+  saveJSON(FAILURES_KEY, log);
+  console.warn(`${model} is unavailable for ${MODEL_REGISTRY[capability].label}; falling back`, reason);
+  listeners.forEach(listener => listener());
+};
+
+export const modelFailures = (capability: ModelCapability) => {
+  const now = Date.now();
+  return loadLog().failures.filter(f => f.capability === capability && now - f.timestamp < RECHECK_AFTER_MS);
+};
+
+export const recentModelFailures = () => loadLog().failures;
+
+// Try the preferred models again, e.g. after fixing the API key's access
+export const clearModelFailures = () => {
+  saveJSON(FAILURES_KEY, { failures: [] });
+  listeners.forEach(listener => listener());
+};
+
+// Runs a call against each usable model in turn, moving on only when the model itself is missing
+// or retired. Any other failure is thrown as is. Returns the model that answered, for usage tracking.
+export const withModelFallback = async <T>(
+  capability: ModelCapability,
+  call: (model: string) => Promise<T>
+): Promise<{ model: string; result: T }> => {
+  const candidates = modelsToTry(capability);
+  for (let i = 0; ; i++) {
+    const model = candidates[i];
+    try {
+      return { model, result: await call(model) };
+    } catch (error) {
+      if (classifyError(error) !== FailureKind.UNSUPPORTED_MODEL) throw error;
+      markModelUnavailable(capability, model, error instanceof Error ? error.message : String(error));
+      if (i === candidates.length - 1) throw error;
+    }
+  }
+};
@@ -0,0 +1,42 @@
+import { LearnerLevel, PlacementResult, PlacementSkill, SkillResult } from '../types';
+import { PlacementItem } from '../data/placement';
+
+export const LEVEL_ORDER: LearnerLevel[] = [LearnerLevel.A1, LearnerLevel.A2, LearnerLevel.B1, LearnerLevel.B2, LearnerLevel.C1];
+
+// A level is failed as soon as one of its items is answered wrongly: with two three-option
+// items, a guess then gets through one time in nine rather than more than half the time.
+// The test stops there too, since harder items can't change the result.
+export const failedLevel = (items: PlacementItem[], answers: Record<string, number>, level: LearnerLevel) =>
+  items.some(item => item.level === level && item.id in answers && answers[item.id] !== item.answer);
+
+// The skill level is the highest level with every item answered and none failed on the way up
+export const scoreSkill = (items: PlacementItem[], answers: Record<string, number>): SkillResult => {
+  let level = LearnerLevel.A1;
+  for (const candidate of LEVEL_ORDER) {
+    const atLevel = items.filter(item => item.level === candidate);
+    if (atLevel.length === 0) continue;
+    if (failedLevel(items, answers, candidate) || !atLevel.every(item => item.id in answers)) break;
+    level = candidate;
+  }
+  const correct = items.filter(item => answers[item.id] === item.answer).length;
+  return { level, score: items.length ? correct / items.length : 0 };
+};
+
+// Overall level: the average of the skill levels, rounded down so the tutor starts comfortable
+export const combineSkills = (skills: PlacementResult['skills']): LearnerLevel => {
+  const indices = Object.values(skills)
+    .filter((skill): skill is SkillResult => !!skill)
+    .map(skill => LEVEL_ORDER.indexOf(skill.level));
+  if (indices.length === 0) return LearnerLevel.A1;
+  const average = indices.reduce((sum, i) => sum + i, 0) / indices.length;
+  return LEVEL_ORDER[Math.floor(average)];
+};
+
+export const parseLevel = (value: unknown): LearnerLevel | null =>
+  LEVEL_ORDER.find(level => level === String(value).toUpperCase()) ?? null;
+
+export const SKILL_LABELS: Record<PlacementSkill, string> = {
+  [PlacementSkill.GRAMMAR]: 'Grammar',
+  [PlacementSkill.VOCABULARY]: 'Vocabulary',
+  [PlacementSkill.SPEAKING]: 'Speaking'
+};
@@ -0,0 +1,71 @@
+import { LearnerProfile, TutorSettings } from '../types';
+import { DEFAULT_SETTINGS, loadLegacySettings, normalizeSettings } from './settings';
+import { clearProfileData, DEFAULT_PROFILE_ID, loadJSON, saveJSON, setActiveProfileId } from './storage';
+import { deleteProfileThreads } from './chatStore';
+import { deleteProfileRecordings } from './recordings';
+
+const PROFILES_KEY = 'lingomate.profiles';
+const ACTIVE_PROFILE_KEY = 'lingomate.activeProfile';
+
+const newId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// The first run with profiles turns the single learner's settings into the first profile
+const createFirstProfile = (): LearnerProfile => {
+  const legacy = loadLegacySettings();
+  return {
+    id: DEFAULT_PROFILE_ID,
+    name: legacy ? 'Mom' : 'Me',
+    createdAt: Date.now(),
+    settings: legacy ?? DEFAULT_SETTINGS
+  };
+};
+
+// Oldest first; never empty
+export const loadProfiles = (): LearnerProfile[] => {
+  const saved = loadJSON<LearnerProfile[]>(PROFILES_KEY, []);
+  if (saved.length === 0) return [createFirstProfile()];
+  return saved.map(p => ({ ...p, settings: normalizeSettings(p.settings) }));
+};
+
+const saveProfiles = (profiles: LearnerProfile[]) => saveJSON(PROFILES_KEY, profiles);
+
+// Also points per-learner storage at this profile
+export const activateProfile = (id: string): LearnerProfile => {
+  const profiles = loadProfiles();
+  const profile = profiles.find(p => p.id === id) ?? profiles[0];
+  saveJSON(ACTIVE_PROFILE_KEY, profile.id);
+  setActiveProfileId(profile.id);
+  return profile;
+};
+
+export const loadActiveProfile = (): LearnerProfile =>
+  activateProfile(loadJSON<string>(ACTIVE_PROFILE_KEY, DEFAULT_PROFILE_ID));
+
+export const createProfile = (name: string, settings: Partial<TutorSettings>): LearnerProfile => {
+  const profile: LearnerProfile = {
+    id: newId(),
+    name: name.trim(),
+    createdAt: Date.now(),
+    settings: normalizeSettings(settings)
+  };
+  saveProfiles([...loadProfiles(), profile]);
+  return profile;
+};
+
+export const updateProfile = (profile: LearnerProfile) => {
+  const profiles = loadProfiles();
+  const exists = profiles.some(p => p.id === profile.id);
+  saveProfiles(exists ? profiles.map(p => (p.id === profile.id ? profile : p)) : [...profiles, profile]);
+};
+
+// The first profile holds the data from before profiles existed, so it can't be deleted
+export const canDeleteProfile = (id: string) => id !== DEFAULT_PROFILE_ID;
+
+export const deleteProfile = async (id: string) => {
+  if (!canDeleteProfile(id)) return;
+  // IndexedDB first: if it fails the profile is still there to delete again
+  await deleteProfileThreads(id);
+  await deleteProfileRecordings(id);
+  saveProfiles(loadProfiles().filter(p => p.id !== id));
+  clearProfileData(id);
+};
@@ -0,0 +1,205 @@
+import { LIVE_TOOL_INSTRUCTIONS, MARK_GOAL_COMPLETE, REPORT_SPEAKING_LEVEL } from './liveTools';
+import { ChatMessage, CorrectionStrictness, ExplanationLanguage, LearnerLevel, LearnerProfile, NativeLanguage, PlacementSkill, Scenario, Sender, SpeakingPace, TutorSettings } from '../types';
+import { LEVEL_ORDER, SKILL_LABELS } from './placement';
+
+// Every prompt and speech config is built from the active learner profile here, so changing a
+// setting (or switching learner) changes the tutor's behaviour everywhere at once.
+
+export const LANGUAGE_NAMES: Record<NativeLanguage, string> = {
+  [NativeLanguage.HINDI]: 'Hindi',
+  [NativeLanguage.KANNADA]: 'Kannada',
+  [NativeLanguage.TAMIL]: 'Tamil',
+  [NativeLanguage.TELUGU]: 'Telugu',
+  [NativeLanguage.MARATHI]: 'Marathi',
+  [NativeLanguage.BENGALI]: 'Bengali'
+};
+
+// The language explanations are written in
+export const explanationLanguageName = (settings: TutorSettings) =>
+  settings.explanationLanguage === ExplanationLanguage.ENGLISH ? 'English' : LANGUAGE_NAMES[settings.nativeLanguage];
+
+export const LEVEL_DESCRIPTIONS: Record<LearnerLevel, string> = {
+  [LearnerLevel.A1]: 'an absolute beginner who knows only a few common words',
+  [LearnerLevel.A2]: 'a beginner who can handle simple everyday sentences',
+  [LearnerLevel.B1]: 'an intermediate learner who can talk about familiar topics',
+  [LearnerLevel.B2]: 'an upper-intermediate learner who speaks fairly fluently',
+  [LearnerLevel.C1]: 'an advanced learner who wants to sound natural and precise'
+};
+
+// How the Live tutor pitches its own English
+const LEVEL_SPEAKING_STYLE: Record<LearnerLevel, string> = {
+  [LearnerLevel.A1]: 'Use very short sentences (about 5-8 words) and only everyday words. Ask yes/no or either/or questions, and give an example answer if they are stuck.',
+  [LearnerLevel.A2]: 'Use short, simple sentences and common words. Ask one simple question at a time about daily life.',
+  [LearnerLevel.B1]: 'Use clear everyday English. Ask open questions about their experiences and opinions.',
+  [LearnerLevel.B2]: 'Speak naturally, including common phrasal verbs. Ask them to explain, compare and give reasons.',
+  [LearnerLevel.C1]: 'Speak as you would to a fluent adult, with idioms and varied vocabulary. Discuss abstract topics and point out more natural phrasing.'
+};
+
+// How deep the Fast Grammar Check explanations go
+const LEVEL_CHECK_DEPTH: Record<LearnerLevel, string> = {
+  [LearnerLevel.A1]: 'Explain each mistake in one very simple sentence, without grammar terms.',
+  [LearnerLevel.A2]: 'Explain each mistake simply, naming the rule in plain words.',
+  [LearnerLevel.B1]: 'Name the grammar rule briefly and give one short example of correct use.',
+  [LearnerLevel.B2]: 'Explain the rule, and mention a common exception or confusion if there is one.',
+  [LearnerLevel.C1]: 'Be precise: mention register, nuance and more natural alternatives, even when the sentence is grammatical.'
+};
+
+// Vocabulary SmartChat may use in its answers
+const LEVEL_CHAT_VOCABULARY: Record<LearnerLevel, string> = {
+  [LearnerLevel.A1]: 'Use only the most common everyday words and sentences under 10 words. Explain any other word you must use.',
+  [LearnerLevel.A2]: 'Use common words and short sentences. Explain less common words in brackets.',
+  [LearnerLevel.B1]: 'Use everyday vocabulary. Briefly explain idioms and specialised words.',
+  [LearnerLevel.B2]: 'Use natural vocabulary, including phrasal verbs. Explain only rare or technical words.',
+  [LearnerLevel.C1]: 'Use rich, natural vocabulary and idioms freely.'
+};
+
+// From the placement test: tell the tutor when one skill lags behind the overall level
+const skillGapNote = ({ settings, placement }: LearnerProfile) => {
+  if (!placement) return '';
+  const levelIndex = LEVEL_ORDER.indexOf(settings.level);
+  const weaker = (Object.entries(placement.skills) as [PlacementSkill, { level: LearnerLevel }][])
+    .filter(([, skill]) => LEVEL_ORDER.indexOf(skill.level) < levelIndex)
+    .map(([skill, result]) => `${SKILL_LABELS[skill].toLowerCase()} (${result.level})`);
+  return weaker.length ? `Their placement test showed weaker ${weaker.join(' and ')}, so give extra support there.` : '';
+};
+
+const PACE_INSTRUCTIONS: Record<SpeakingPace, string> = {
+  [SpeakingPace.SLOW]: 'Speak slowly and clearly, with short pauses between sentences.',
+  [SpeakingPace.NORMAL]: 'Speak clearly at a natural, relaxed pace.',
+  [SpeakingPace.FAST]: 'Speak at a normal conversational speed, like a native speaker would.'
+};
+
+const STRICTNESS_INSTRUCTIONS: Record<CorrectionStrictness, string> = {
+  [CorrectionStrictness.GENTLE]: 'Only correct mistakes that change the meaning or that they repeat; let small slips pass so they stay confident.',
+  [CorrectionStrictness.BALANCED]: 'Correct clear grammar mistakes gently, one at a time.',
+  [CorrectionStrictness.STRICT]: 'Correct every grammar, vocabulary and pronunciation mistake you notice.'
+};
+
+const CHECK_STRICTNESS_INSTRUCTIONS: Record<CorrectionStrictness, string> = {
+  [CorrectionStrictness.GENTLE]: 'Ignore punctuation and capitalisation slips.',
+  [CorrectionStrictness.BALANCED]: 'Ignore small punctuation slips.',
+  [CorrectionStrictness.STRICT]: 'Report every mistake, including punctuation and capitalisation.'
+};
+
+const TTS_PACE_PREFIX: Record<SpeakingPace, string> = {
+  [SpeakingPace.SLOW]: 'Say slowly and clearly: ',
+  [SpeakingPace.NORMAL]: 'Say clearly: ',
+  [SpeakingPace.FAST]: ''
+};
+
+const TTS_SLOW_REPLAY_PREFIX = 'Say very slowly, one word at a time, with a clear pause after each word: ';
+
+const explanationRule = (settings: TutorSettings) =>
+  settings.explanationLanguage === ExplanationLanguage.ENGLISH
+    ? 'Explain everything in simple English only.'
+    : `Use ${LANGUAGE_NAMES[settings.nativeLanguage]} to explain *why* if the concept is difficult.`;
+
+export const buildLiveInstruction = (profile: LearnerProfile) => {
+  const { name, settings } = profile;
+  return `
+You are "LingoMate", a patient and friendly English tutor.
+The user, ${name}, is ${LEVEL_DESCRIPTIONS[settings.level]} (CEFR ${settings.level}), and their own language is ${LANGUAGE_NAMES[settings.nativeLanguage]}.
+Your goal is to have a conversation with them on any topic they like.
+${LEVEL_SPEAKING_STYLE[settings.level]} ${skillGapNote(profile)}
+If they make a grammar mistake, correct them gently in English. ${explanationRule(settings)}
+${STRICTNESS_INSTRUCTIONS[settings.strictness]}
+Encourage them to repeat phrases.
+Keep your responses relatively short and conversational.
+${PACE_INSTRUCTIONS[settings.pace]}
+${LIVE_TOOL_INSTRUCTIONS}`;
+};
+
+// How SmartChat says hello, in the learner's own language
+const GREETINGS: Record<NativeLanguage, string> = {
+  [NativeLanguage.HINDI]: 'Namaste',
+  [NativeLanguage.KANNADA]: 'Namaskara',
+  [NativeLanguage.TAMIL]: 'Vanakkam',
+  [NativeLanguage.TELUGU]: 'Namaskaram',
+  [NativeLanguage.MARATHI]: 'Namaskar',
+  [NativeLanguage.BENGALI]: 'Nomoshkar'
+};
+
+export const buildChatWelcome = ({ name, settings }: LearnerProfile) =>
+  `${GREETINGS[settings.nativeLanguage]}, ${name}! Ask me anything. I can check Google Maps for places or Search for news.`;
+
+const photoGlossRule = (settings: TutorSettings) =>
+  settings.explanationLanguage === ExplanationLanguage.ENGLISH
+    ? ''
+    : ` After that, add a short gloss of the important words in ${LANGUAGE_NAMES[settings.nativeLanguage]}.`;
+
+export const buildChatInstruction = ({ name, settings }: LearnerProfile) => `
+You are "LingoMate", a helpful assistant for ${name}, ${LEVEL_DESCRIPTIONS[settings.level]} (CEFR ${settings.level}) learning English, whose own language is ${LANGUAGE_NAMES[settings.nativeLanguage]}.
+Answer in English that suits their level. ${LEVEL_CHAT_VOCABULARY[settings.level]} ${explanationRule(settings)}
+When the user sends a photo of printed English (a sign, a form, a medicine label), first read out what it says, then explain it in simple English.${photoGlossRule(settings)}
+Point out anything important, such as dosage, warnings, dates or where to sign.
+`;
+
+export const buildGrammarCheckPrompt = ({ settings }: LearnerProfile, sentence: string) =>
+  `Check this English sentence written by ${LEVEL_DESCRIPTIONS[settings.level]} for grammar mistakes. ` +
+  `${CHECK_STRICTNESS_INSTRUCTIONS[settings.strictness]} List every mistake you report separately. ` +
+  `${LEVEL_CHECK_DEPTH[settings.level]} ` +
+  `Write all explanations in ${explanationLanguageName(settings)}. Sentence: "${sentence}"`;
+
+const LEVEL_DICTATION_LENGTH: Record<LearnerLevel, string> = {
+  [LearnerLevel.A1]: 'Each sentence has 4 to 6 very common words, in the present tense.',
+  [LearnerLevel.A2]: 'Each sentence has 6 to 9 common words.',
+  [LearnerLevel.B1]: 'Each sentence has 8 to 12 words and may have one clause such as "if" or "because".',
+  [LearnerLevel.B2]: 'Each sentence has 10 to 15 words, with some less common words and spellings.',
+  [LearnerLevel.C1]: 'Each sentence has 12 to 18 words, with advanced vocabulary and tricky spellings.'
+};
+
+export const buildDictationPrompt = ({ settings }: LearnerProfile, count: number) =>
+  `Write ${count} different English sentences for a dictation exercise for ${LEVEL_DESCRIPTIONS[settings.level]} (CEFR ${settings.level}). ` +
+  `${LEVEL_DICTATION_LENGTH[settings.level]} ` +
+  'Use everyday situations from life in India: family, shopping, travel, health, the bank, festivals. ' +
+  'Use British spelling and only full stops, commas and question marks. Write numbers as words, and avoid names and abbreviations.';
+
+export const buildLessonSummaryPrompt = ({ name, settings }: LearnerProfile, messages: ChatMessage[]) => `
+Below is a spoken English lesson between a tutor and ${name}, ${LEVEL_DESCRIPTIONS[settings.level]} (CEFR ${settings.level}).
+It was transcribed automatically, so ignore small transcription errors.
+Write a short lesson summary for ${name} to review the next day:
+- topics: 2 to 4 short phrases naming what was talked about.
+- mistakes: the learner's real English mistakes, each with the learner's words, the corrected sentence and one short explanation in ${explanationLanguageName(settings)}. At most 6; leave out trivial ones.
+- newWords: useful words or phrases from the lesson the learner may not know yet, each with a short meaning in ${explanationLanguageName(settings)}. At most 8.
+- practiceSentences: exactly 3 English sentences for the learner to say aloud, using the corrections and new words, at their level.
+Transcript:
+${messages.map(m => `${m.role === Sender.USER ? 'Learner' : 'Tutor'}: ${m.text.trim()}`).join('\n')}
+`.trim();
+
+export const buildTtsText = (settings: TutorSettings, text: string, slow = false) =>
+  `${slow ? TTS_SLOW_REPLAY_PREFIX : TTS_PACE_PREFIX[settings.pace]}${text}`;
+
+export const buildSpeechConfig = (settings: TutorSettings) => ({
+  voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voice.voiceName } }
+});
+
+export const buildScenarioInstruction = (profile: LearnerProfile, scenario: Scenario) => {
+  const { name, settings } = profile;
+  return `
+You are "LingoMate", an English tutor doing a role-play with the user.
+The user, ${name}, is ${LEVEL_DESCRIPTIONS[settings.level]} (CEFR ${settings.level}), and their own language is ${LANGUAGE_NAMES[settings.nativeLanguage]}.
+In this role-play you are ${scenario.persona}. ${scenario.setting}
+Stay in character and start the scene yourself.
+${LEVEL_SPEAKING_STYLE[settings.level]} ${skillGapNote(profile)}
+The learner is trying to:
+${scenario.goals.map(g => `- [${g.id}] ${g.text}`).join('\n')}
+A good performance means:
+${scenario.checklist.map(c => `- [${c.id}] ${c.text}`).join('\n')}
+Try to draw out these words and phrases: ${scenario.vocabulary.join(', ')}.
+Whenever the learner achieves one of the items above, call ${MARK_GOAL_COMPLETE} with its id.
+If they make a grammar mistake, step out of character briefly to correct them gently in English. ${explanationRule(settings)}
+${STRICTNESS_INSTRUCTIONS[settings.strictness]}
+Keep your responses relatively short and conversational.
+${PACE_INSTRUCTIONS[settings.pace]}
+${LIVE_TOOL_INSTRUCTIONS}`;
+};
+
+// The spoken part of the placement test: a short graded interview, then a verdict through a tool call
+export const buildPlacementInstruction = ({ name, settings }: LearnerProfile) => `
+You are "LingoMate", a friendly English examiner doing a short speaking check with ${name}, whose own language is ${LANGUAGE_NAMES[settings.nativeLanguage]}.
+Start by greeting them and asking their name and where they live. Then ask about five more questions, each a little harder than the last:
+daily routine, a recent event in the past, future plans, an opinion with reasons, and a hypothetical situation.
+Move on as soon as an answer shows their limit; never correct them during the check.
+${PACE_INSTRUCTIONS[settings.pace]}
+When you have heard enough (at most about three minutes), thank them warmly, then call ${REPORT_SPEAKING_LEVEL} with the CEFR level (A1-C1) that best fits their speaking and a one-sentence note on their strengths and what to work on.
+Never mention the tool or the level out loud.`;
@@ -0,0 +1,29 @@
+import { PhraseScore } from '../types';
+import { loadJSON, profileKey, saveJSON } from './storage';
+
+const STORAGE_KEY = 'lingomate.pronunciation';
+const MAX_ATTEMPTS = 20;
+
+const phraseKey = (phrase: string) => phrase.trim().toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, '').replace(/\s+/g, ' ');
+
+const loadAll = (): Record<string, PhraseScore> => loadJSON<Record<string, PhraseScore>>(profileKey(STORAGE_KEY), {});
+
+export const getPhraseScore = (phrase: string): PhraseScore | null => loadAll()[phraseKey(phrase)] || null;
+
+export const recordPhraseScore = (phrase: string, score: number): PhraseScore => {
+  const all = loadAll();
+  const key = phraseKey(phrase);
+  const existing = all[key] || { phrase: phrase.trim(), attempts: [] };
+  const updated: PhraseScore = {
+    ...existing,
+    attempts: [...existing.attempts, { score, timestamp: Date.now() }].slice(-MAX_ATTEMPTS)
+  };
+  saveJSON(profileKey(STORAGE_KEY), { ...all, [key]: updated });
+  return updated;
+};
+
+// Most recently practised first
+export const loadPhraseScores = (): PhraseScore[] =>
+  Object.values(loadAll()).sort(
+    (a, b) => (b.attempts[b.attempts.length - 1]?.timestamp || 0) - (a.attempts[a.attempts.length - 1]?.timestamp || 0)
+  );
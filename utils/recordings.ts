@@ -0,0 +1,35 @@
+import { CallRecording } from '../types';
+import { deleteOne, getAll, getOne, putOne, RECORDINGS_STORE } from './db';
+import { DEFAULT_PROFILE_ID } from './storage';
+
+// Audio is large, so only each learner's most recent calls keep theirs
+export const MAX_RECORDINGS = 10;
+
+const belongsTo = (recording: CallRecording, profileId: string) =>
+  (recording.profileId ?? DEFAULT_PROFILE_ID) === profileId;
+
+const profileRecordings = async (profileId: string) =>
+  (await getAll<CallRecording>(RECORDINGS_STORE)).filter(r => belongsTo(r, profileId));
+
+export const getRecording = (id: string): Promise<CallRecording | undefined> =>
+  getOne<CallRecording>(RECORDINGS_STORE, id);
+
+export const deleteRecording = (id: string): Promise<void> => deleteOne(RECORDINGS_STORE, id);
+
+export const saveRecording = async (recording: CallRecording): Promise<void> => {
+  await putOne(RECORDINGS_STORE, recording);
+  const own = await profileRecordings(recording.profileId ?? DEFAULT_PROFILE_ID);
+  const stale = own.sort((a, b) => b.createdAt - a.createdAt).slice(MAX_RECORDINGS);
+  await Promise.all(stale.map(r => deleteRecording(r.id)));
+};
+
+export const deleteProfileRecordings = async (profileId: string) => {
+  const recordings = await profileRecordings(profileId);
+  await Promise.all(recordings.map(r => deleteRecording(r.id)));
+};
+
+export const recordingFileName = (recording: CallRecording) => {
+  const d = new Date(recording.createdAt);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `lingomate-call-${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}.wav`;
+};
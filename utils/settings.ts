@@ -0,0 +1,42 @@
+import { CorrectionStrictness, ExplanationLanguage, LearnerLevel, NativeLanguage, SpeakingPace, TutorSettings } from '../types';
+import { loadJSON } from './storage';
+
+// Settings from before profiles; read once to create the first profile
+const LEGACY_STORAGE_KEY = 'lingomate.settings';
+
+export const VOICE_OPTIONS: { name: string; description: string }[] = [
+  { name: 'Kore', description: 'Warm, female' },
+  { name: 'Aoede', description: 'Bright, female' },
+  { name: 'Leda', description: 'Young, female' },
+  { name: 'Fenrir', description: 'Friendly, male' },
+  { name: 'Charon', description: 'Calm, male' },
+  { name: 'Puck', description: 'Lively, male' },
+  { name: 'Orus', description: 'Firm, male' },
+  { name: 'Zephyr', description: 'Light, neutral' }
+];
+
+export const DEFAULT_SETTINGS: TutorSettings = {
+  voice: { voiceName: 'Kore' },
+  nativeLanguage: NativeLanguage.HINDI,
+  explanationLanguage: ExplanationLanguage.NATIVE,
+  pace: SpeakingPace.SLOW,
+  strictness: CorrectionStrictness.GENTLE,
+  level: LearnerLevel.A2,
+  dailyGoalMinutes: 10
+};
+
+// Merge with the defaults so settings saved by older versions pick up new fields
+export const normalizeSettings = (saved: Partial<TutorSettings> = {}): TutorSettings => {
+  const settings = { ...DEFAULT_SETTINGS, ...saved, voice: { ...DEFAULT_SETTINGS.voice, ...saved.voice } };
+  // Before profiles, the explanation language was 'hindi', 'kannada' or 'english'
+  const legacyLanguage = saved.explanationLanguage as string | undefined;
+  if (legacyLanguage === NativeLanguage.HINDI || legacyLanguage === NativeLanguage.KANNADA) {
+    return { ...settings, nativeLanguage: legacyLanguage, explanationLanguage: ExplanationLanguage.NATIVE };
+  }
+  return settings;
+};
+
+export const loadLegacySettings = (): TutorSettings | null => {
+  const saved = loadJSON<Partial<TutorSettings> | null>(LEGACY_STORAGE_KEY, null);
+  return saved ? normalizeSettings(saved) : null;
+};
@@ -0,0 +1,86 @@
+import { getBackend } from './backend';
+import { audioBufferToWav, base64ToArrayBuffer, bytesToBase64, decodeAudioData } from './audioUtils';
+import { FailureKind, TutorSettings } from '../types';
+import { TutorError } from './errors';
+
+export interface RecordedAudio {
+  base64: string;
+  mimeType: string;
+}
+
+export interface Recorder {
+  stop: () => Promise<RecordedAudio>;
+}
+
+// Speak a phrase with the tutor voice and pace, or much slower for a replay. Resolves once playback has finished.
+export const speak = async (text: string, settings: TutorSettings, slow = false): Promise<void> => {
+  const base64Audio = await getBackend().synthesizeSpeech(text, settings, slow);
+  if (!base64Audio) throw new TutorError(FailureKind.NO_AUDIO);
+
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+  try {
+    const audioBuffer = await decodeAudioData(base64ToArrayBuffer(base64Audio), ctx, 24000, 1);
+    const source = ctx.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(ctx.destination);
+    await new Promise<void>(resolve => {
+      source.onended = () => resolve();
+      source.start();
+    });
+  } finally {
+    ctx.close();
+  }
+};
+
+// `expected` is the phrase the learner was asked to say, if any
+export const transcribe = (audio: RecordedAudio, expected?: string): Promise<string> =>
+  getBackend().transcribe({ ...audio, expected });
+
+// Recordings are sent as 16 kHz mono WAV: every browser records in a different container
+// (webm, ogg, mp4) and not all of them are accepted for transcription
+const TRANSCRIPTION_SAMPLE_RATE = 16000;
+
+const toWav = async (recording: Blob): Promise<RecordedAudio> => {
+  const encoded = await recording.arrayBuffer();
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    const decoded = await ctx.decodeAudioData(encoded);
+    return { base64: bytesToBase64(new Uint8Array(audioBufferToWav(decoded, TRANSCRIPTION_SAMPLE_RATE))), mimeType: 'audio/wav' };
+  } catch (e) {
+    // The browser can't decode its own recording: send it as recorded, with its real type
+    console.warn('Could not convert recording to WAV', e);
+    return { base64: bytesToBase64(new Uint8Array(encoded)), mimeType: recording.type.split(';')[0] || 'audio/webm' };
+  } finally {
+    ctx.close();
+  }
+};
+
+// Start recording from the mic. Call stop() on the returned handle to get the audio.
+export const startRecorder = async (): Promise<Recorder> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const mediaRecorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+
+  mediaRecorder.ondataavailable = (event) => {
+    if (event.data.size > 0) {
+      chunks.push(event.data);
+    }
+  };
+  mediaRecorder.start();
+
+  return {
+    stop: () =>
+      new Promise((resolve, reject) => {
+        mediaRecorder.onstop = async () => {
+          // Stop tracks
+          stream.getTracks().forEach(track => track.stop());
+          try {
+            resolve(await toWav(new Blob(chunks, { type: mediaRecorder.mimeType })));
+          } catch (e) {
+            reject(e);
+          }
+        };
+        mediaRecorder.stop();
+      })
+  };
+};
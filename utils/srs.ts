@@ -0,0 +1,54 @@
+import { DeckCard } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+// Review grades on the SM-2 0-5 scale. Only AGAIN (below HARD) counts as a lapse, as in SM-2 where 3 is a pass.
+export enum ReviewGrade {
+  AGAIN = 1,
+  HARD = 3,
+  GOOD = 4,
+  EASY = 5
+}
+
+export const newCardSchedule = (now = Date.now()) => ({
+  due: now,
+  interval: 0,
+  easeFactor: 2.5,
+  repetitions: 0
+});
+
+export const scheduleReview = (card: DeckCard, grade: ReviewGrade, now = Date.now()): DeckCard => {
+  let { interval, easeFactor, repetitions } = card;
+
+  if (grade < ReviewGrade.HARD) {
+    repetitions = 0;
+    interval = 0; // See it again later in this session
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) interval = 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round(interval * easeFactor);
+  }
+
+  easeFactor = Math.max(MIN_EASE, easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+  return {
+    ...card,
+    interval,
+    easeFactor,
+    repetitions,
+    lastReviewed: now,
+    due: interval === 0 ? now + 60 * 1000 : now + interval * DAY_MS
+  };
+};
+
+// Suggest a grade from how much of the answer was right (0-1)
+export const gradeFromAccuracy = (accuracy: number): ReviewGrade => {
+  if (accuracy >= 0.999) return ReviewGrade.EASY;
+  if (accuracy >= 0.85) return ReviewGrade.GOOD;
+  if (accuracy >= 0.6) return ReviewGrade.HARD;
+  return ReviewGrade.AGAIN;
+};
+
+export const isDue = (card: DeckCard, now = Date.now()) => card.due <= now;
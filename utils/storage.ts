@@ -0,0 +1,47 @@
+// Small wrappers around localStorage so a full or blocked storage never crashes the app.
+
+export const loadJSON = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (e) {
+    console.warn(`Could not read ${key} from storage`, e);
+    return fallback;
+  }
+};
+
+export const saveJSON = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Could not write ${key} to storage`, e);
+  }
+};
+
+// Per-learner data (deck, journal, transcripts, scores) is stored under keys suffixed with the
+// active profile id. The first profile keeps the plain keys, so data from before profiles is its own.
+export const DEFAULT_PROFILE_ID = 'default';
+
+let activeProfileId = DEFAULT_PROFILE_ID;
+
+export const getActiveProfileId = () => activeProfileId;
+
+export const setActiveProfileId = (id: string) => {
+  activeProfileId = id;
+};
+
+export const profileKey = (key: string, profileId = activeProfileId) =>
+  profileId === DEFAULT_PROFILE_ID ? key : `${key}.${profileId}`;
+
+// Drop every per-learner key belonging to a profile
+export const clearProfileData = (profileId: string) => {
+  if (profileId === DEFAULT_PROFILE_ID) return;
+  try {
+    const suffix = `.${profileId}`;
+    Object.keys(localStorage)
+      .filter(key => key.startsWith('lingomate.') && key.endsWith(suffix))
+      .forEach(key => localStorage.removeItem(key));
+  } catch (e) {
+    console.warn('Could not clear profile data', e);
+  }
+};
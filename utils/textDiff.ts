@@ -0,0 +1,121 @@
+export type DiffOp = 'equal' | 'removed' | 'added';
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+export const tokenize = (text: string): string[] => text.trim().split(/\s+/).filter(Boolean);
+
+// Word-level diff using a longest-common-subsequence table. Sentences are short, so O(n*m) is fine.
+// `separator` joins neighbouring tokens of the same kind: a space for words, nothing for characters.
+export const diffWords = (
+  before: string[],
+  after: string[],
+  isEqual: (a: string, b: string) => boolean = (a, b) => a === b,
+  separator = ' '
+): DiffSegment[] => {
+  const n = before.length;
+  const m = after.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = isEqual(before[i], after[j])
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (op: DiffOp, text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) last.text += `${separator}${text}`;
+    else segments.push({ op, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (isEqual(before[i], after[j])) {
+      push('equal', after[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', before[i++]);
+    } else {
+      push('added', after[j++]);
+    }
+  }
+  while (i < n) push('removed', before[i++]);
+  while (j < m) push('added', after[j++]);
+
+  return segments;
+};
+
+// Letter-by-letter diff of two words, for showing a spelling mistake
+export const diffChars = (before: string, after: string): DiffSegment[] =>
+  diffWords(Array.from(before), Array.from(after), undefined, '');
+
+export const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+// Fraction of the expected words that appear, in order, in the answer. Ignores case and punctuation.
+export const wordAccuracy = (expected: string, actual: string): number => {
+  const target = tokenize(expected).map(normalizeWord).filter(Boolean);
+  if (target.length === 0) return 0;
+  const answer = tokenize(actual).map(normalizeWord).filter(Boolean);
+  const matched = diffWords(target, answer)
+    .filter(s => s.op === 'equal')
+    .reduce((sum, s) => sum + tokenize(s.text).length, 0);
+  return matched / target.length;
+};
+
+export type AlignmentOp = 'match' | 'substituted' | 'missed' | 'extra';
+
+export interface WordAlignment {
+  op: AlignmentOp;
+  expected?: string; // word from the target, with its original casing
+  heard?: string;
+}
+
+// Align what was heard against a target sentence word by word. A run of removed words followed by
+// added words is treated as substitutions, pairwise; whatever is left over is missed or extra.
+export const alignWords = (target: string, heard: string, normalize = normalizeWord): WordAlignment[] => {
+  const targetWords = tokenize(target);
+  const heardWords = tokenize(heard);
+  const segments = diffWords(
+    targetWords.map(normalize),
+    heardWords.map(normalize)
+  );
+
+  const result: WordAlignment[] = [];
+  let t = 0;
+  let h = 0;
+  for (let i = 0; i < segments.length; i++) {
+    const count = tokenize(segments[i].text).length;
+    if (segments[i].op === 'equal') {
+      for (let k = 0; k < count; k++) result.push({ op: 'match', expected: targetWords[t++], heard: heardWords[h++] });
+    } else if (segments[i].op === 'removed') {
+      const next = segments[i + 1];
+      const added = next?.op === 'added' ? tokenize(next.text).length : 0;
+      for (let k = 0; k < Math.max(count, added); k++) {
+        if (k < count && k < added) result.push({ op: 'substituted', expected: targetWords[t++], heard: heardWords[h++] });
+        else if (k < count) result.push({ op: 'missed', expected: targetWords[t++] });
+        else result.push({ op: 'extra', heard: heardWords[h++] });
+      }
+      if (added) i++;
+    } else {
+      for (let k = 0; k < count; k++) result.push({ op: 'extra', heard: heardWords[h++] });
+    }
+  }
+  return result;
+};
+
+export const alignmentScore = (alignment: WordAlignment[]): number => {
+  const expected = alignment.filter(a => a.op !== 'extra').length;
+  const extra = alignment.length - expected;
+  if (expected === 0) return 0;
+  const matched = alignment.filter(a => a.op === 'match').length;
+  // Extra words cost half as much as a missed one
+  return Math.max(0, (matched - extra * 0.5) / expected);
+};
@@ -0,0 +1,24 @@
+import { LessonSummary, LiveTranscript } from '../types';
+import { getActiveProfileId, loadJSON, profileKey, saveJSON } from './storage';
+
+const STORAGE_KEY = 'lingomate.transcripts';
+const MAX_TRANSCRIPTS = 50;
+
+// Newest first
+export const loadTranscripts = (): LiveTranscript[] => loadJSON<LiveTranscript[]>(profileKey(STORAGE_KEY), []);
+
+export const saveTranscript = (transcript: LiveTranscript) => {
+  const existing = loadTranscripts().filter(t => t.id !== transcript.id);
+  saveJSON(profileKey(STORAGE_KEY), [transcript, ...existing].slice(0, MAX_TRANSCRIPTS));
+};
+
+// The summary is written after the call ends; `profileId` keeps it with the right learner if they switch meanwhile
+export const attachSummary = (id: string, summary: LessonSummary, profileId = getActiveProfileId()) => {
+  const key = profileKey(STORAGE_KEY, profileId);
+  const transcripts = loadJSON<LiveTranscript[]>(key, []);
+  saveJSON(key, transcripts.map(t => (t.id === id ? { ...t, summary } : t)));
+};
+
+export const deleteTranscript = (id: string) => {
+  saveJSON(profileKey(STORAGE_KEY), loadTranscripts().filter(t => t.id !== id));
+};
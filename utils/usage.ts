@@ -0,0 +1,184 @@
+import { FailureKind, TokenCounts, UsageBudget, UsageFeature, UsageRecord } from '../types';
+import { dayKey } from './activity';
+import { loadJSON, saveJSON } from './storage';
+import { TutorError } from './errors';
+
+// Token usage of every model call, with daily and monthly budgets. Not per learner:
+// the whole family shares one API key, so they share one budget.
+
+const USAGE_KEY = 'lingomate.usage';
+const BUDGET_KEY = 'lingomate.usageBudget';
+const KEEP_DAYS = 62;
+const MAX_RECENT = 50;
+
+export interface UsageTotals extends TokenCounts {
+  calls: number;
+}
+
+interface DayUsage {
+  features: Partial<Record<UsageFeature, UsageTotals>>;
+  models: Record<string, UsageTotals>;
+}
+
+interface UsageLog {
+  days: Record<string, DayUsage>;
+  recent: UsageRecord[]; // newest first
+}
+
+// Fields from GenerateContentResponseUsageMetadata and the Live UsageMetadata
+export interface ReportedUsage {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  responseTokenCount?: number;
+  thoughtsTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+// Thinking Mode and Live calls are what run up the bill; they stop once a cap is reached
+export const EXPENSIVE_FEATURES = [UsageFeature.THINKING, UsageFeature.LIVE];
+
+export const FEATURE_LABELS: Record<UsageFeature, string> = {
+  [UsageFeature.CHAT]: 'Chat',
+  [UsageFeature.THINKING]: 'Thinking Mode',
+  [UsageFeature.GRAMMAR_CHECK]: 'Grammar check',
+  [UsageFeature.TTS]: 'Read aloud',
+  [UsageFeature.TRANSCRIPTION]: 'Transcription',
+  [UsageFeature.LIVE]: 'Live calls',
+  [UsageFeature.DICTATION]: 'Dictation sentences',
+  [UsageFeature.LESSON_SUMMARY]: 'Lesson summaries'
+};
+
+export const DEFAULT_BUDGET: UsageBudget = { dailyTokens: null, monthlyTokens: null, warnAtPercent: 80 };
+
+export const emptyTotals = (): UsageTotals => ({ calls: 0, promptTokens: 0, outputTokens: 0, thoughtsTokens: 0, totalTokens: 0 });
+
+const addTotals = (totals: UsageTotals | undefined, counts: TokenCounts, calls: number): UsageTotals => {
+  const base = totals ?? emptyTotals();
+  return {
+    calls: base.calls + calls,
+    promptTokens: base.promptTokens + counts.promptTokens,
+    outputTokens: base.outputTokens + counts.outputTokens,
+    thoughtsTokens: base.thoughtsTokens + counts.thoughtsTokens,
+    totalTokens: base.totalTokens + counts.totalTokens
+  };
+};
+
+const loadLog = (): UsageLog => loadJSON<UsageLog>(USAGE_KEY, { days: {}, recent: [] });
+
+const listeners = new Set<() => void>();
+
+// Lets the budget banner refresh as calls come in
+export const onUsageChange = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const toTokenCounts = (usage: ReportedUsage | undefined): TokenCounts => {
+  const promptTokens = usage?.promptTokenCount ?? 0;
+  const outputTokens = usage?.candidatesTokenCount ?? usage?.responseTokenCount ?? 0;
+  const thoughtsTokens = usage?.thoughtsTokenCount ?? 0;
+  return { promptTokens, outputTokens, thoughtsTokens, totalTokens: usage?.totalTokenCount ?? promptTokens + outputTokens + thoughtsTokens };
+};
+
+// `calls` is 0 for the later usage reports of one Live session, so a call is only counted once
+export const recordUsage = (feature: UsageFeature, model: string, usage: ReportedUsage | undefined, calls = 1) => {
+  const counts = toTokenCounts(usage);
+  const log = loadLog();
+  const today = dayKey();
+  const day = log.days[today] ?? { features: {}, models: {} };
+  log.days[today] = {
+    features: { ...day.features, [feature]: addTotals(day.features[feature], counts, calls) },
+    models: { ...day.models, [model]: addTotals(day.models[model], counts, calls) }
+  };
+  log.recent = [{ timestamp: Date.now(), feature, model, ...counts }, ...log.recent].slice(0, MAX_RECENT);
+
+  const now = new Date();
+  const oldest = dayKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() - KEEP_DAYS));
+  Object.keys(log.days).filter(key => key < oldest).forEach(key => delete log.days[key]);
+  saveJSON(USAGE_KEY, log);
+  listeners.forEach(listener => listener());
+};
+
+export interface UsageSummary {
+  byFeature: Partial<Record<UsageFeature, UsageTotals>>;
+  byModel: Record<string, UsageTotals>;
+  total: UsageTotals;
+}
+
+const summarize = (days: DayUsage[]): UsageSummary => {
+  const summary: UsageSummary = { byFeature: {}, byModel: {}, total: emptyTotals() };
+  days.forEach(day => {
+    (Object.entries(day.features) as [UsageFeature, UsageTotals][]).forEach(([feature, totals]) => {
+      summary.byFeature[feature] = addTotals(summary.byFeature[feature], totals, totals.calls);
+      summary.total = addTotals(summary.total, totals, totals.calls);
+    });
+    Object.entries(day.models).forEach(([model, totals]) => {
+      summary.byModel[model] = addTotals(summary.byModel[model], totals, totals.calls);
+    });
+  });
+  return summary;
+};
+
+export const usageToday = () => summarize([loadLog().days[dayKey()]].filter(Boolean));
+
+// The calendar month so far
+export const usageThisMonth = () => {
+  const month = dayKey().slice(0, 7);
+  const { days } = loadLog();
+  return summarize(Object.keys(days).filter(key => key.startsWith(month)).map(key => days[key]));
+};
+
+export const recentUsage = () => loadLog().recent;
+
+export const clearUsage = () => {
+  saveJSON(USAGE_KEY, { days: {}, recent: [] });
+  listeners.forEach(listener => listener());
+};
+
+export const loadBudget = (): UsageBudget => ({ ...DEFAULT_BUDGET, ...loadJSON<Partial<UsageBudget>>(BUDGET_KEY, {}) });
+
+export const saveBudget = (budget: UsageBudget) => {
+  saveJSON(BUDGET_KEY, budget);
+  listeners.forEach(listener => listener());
+};
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  level: BudgetLevel;
+  today: number;
+  month: number;
+  budget: UsageBudget;
+}
+
+const levelFor = (used: number, cap: number | null, warnAtPercent: number): BudgetLevel => {
+  if (cap === null) return 'ok';
+  if (used >= cap) return 'exceeded';
+  return used >= (cap * warnAtPercent) / 100 ? 'warning' : 'ok';
+};
+
+const LEVEL_RANK: Record<BudgetLevel, number> = { ok: 0, warning: 1, exceeded: 2 };
+
+export const getBudgetStatus = (): BudgetStatus => {
+  const budget = loadBudget();
+  const today = usageToday().total.totalTokens;
+  const month = usageThisMonth().total.totalTokens;
+  const levels = [levelFor(today, budget.dailyTokens, budget.warnAtPercent), levelFor(month, budget.monthlyTokens, budget.warnAtPercent)];
+  const level = levels.reduce((worst, next) => (LEVEL_RANK[next] > LEVEL_RANK[worst] ? next : worst), 'ok' as BudgetLevel);
+  return { level, today, month, budget };
+};
+
+export const isBlocked = (feature: UsageFeature) =>
+  EXPENSIVE_FEATURES.includes(feature) && getBudgetStatus().level === 'exceeded';
+
+export class BudgetExceededError extends TutorError {
+  constructor(public feature: UsageFeature) {
+    super(FailureKind.BUDGET_REACHED, `${FEATURE_LABELS[feature]} is paused: the token budget has been reached.`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// Called by the backends before starting an expensive call
+export const assertWithinBudget = (feature: UsageFeature) => {
+  if (isBlocked(feature)) throw new BudgetExceededError(feature);
+};
@@ -4,15 +4,25 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The Gemini key stays with the proxy (server/proxy.ts); the bundle only knows /api.
+    const proxyTarget = `http://localhost:${env.PROXY_PORT || 8787}`;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': { target: proxyTarget, ws: true, xfwd: true },
+        },
+      },
+      preview: {
+        proxy: {
+          '/api': { target: proxyTarget, ws: true, xfwd: true },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // 'fake' builds the offline demo backend by default (see utils/backend.ts)
+        'process.env.TUTOR_BACKEND': JSON.stringify(env.TUTOR_BACKEND || '')
       },
       resolve: {
         alias: {